@@ -6,6 +6,8 @@ import WebContainerManager from './utils/webcontainer-manager';
 interface AppState {
   githubToken: string | null;
   repoUrl: string | null;
+  repoRef: string | null;
+  pullNumber: number | null;
   basebaseToken: string | null;
   basebaseProject: string | null;
   showAuth: boolean;
@@ -15,6 +17,8 @@ const App: React.FC = () => {
   const [state, setState] = useState<AppState>({
     githubToken: null,
     repoUrl: null,
+    repoRef: null,
+    pullNumber: null,
     basebaseToken: null,
     basebaseProject: null,
     showAuth: false
@@ -24,6 +28,8 @@ const App: React.FC = () => {
     // Parse repo URL, token, and project from URL
     const urlParams = new URLSearchParams(window.location.search);
     const repoParam = urlParams.get('repo');
+    const refParam = urlParams.get('ref');
+    const prParam = urlParams.get('pr');
     const tokenParam = urlParams.get('token');
     
     // Extract project from path segment (first segment after /)
@@ -41,6 +47,30 @@ const App: React.FC = () => {
       repoUrl = localStorage.getItem('basebase_repo');
     }
 
+    // Handle branch, tag or commit selection. A new repo without a ref means
+    // its default branch, so don't carry over the ref saved for another repo.
+    let repoRef: string | null = null;
+    if (refParam) {
+      localStorage.setItem('basebase_ref', refParam);
+      repoRef = refParam;
+    } else if (repoParam) {
+      localStorage.removeItem('basebase_ref');
+    } else {
+      repoRef = localStorage.getItem('basebase_ref');
+    }
+
+    // Handle pull request selection, remembered per repo like the ref
+    let pullNumber: number | null = null;
+    if (prParam && /^\d+$/.test(prParam)) {
+      localStorage.setItem('basebase_pr', prParam);
+      pullNumber = parseInt(prParam, 10);
+    } else if (repoParam || refParam) {
+      localStorage.removeItem('basebase_pr');
+    } else {
+      const savedPr = localStorage.getItem('basebase_pr');
+      pullNumber = savedPr ? parseInt(savedPr, 10) : null;
+    }
+
     if (!repoUrl) {
       // Show error if no repo specified and none saved
       setState(prev => ({ ...prev, repoUrl: null }));
@@ -70,11 +100,13 @@ const App: React.FC = () => {
     }
 
     // Remove sensitive parameters from URL immediately for security
-    // Keep project param in path for better UX, but remove token (sensitive) and repo (long URL)
-    if (tokenParam || repoParam) {
+    // Keep project param in path for better UX, but remove token (sensitive), repo (long URL), ref and pr (saved with the repo)
+    if (tokenParam || repoParam || refParam || prParam) {
       const newUrl = new URL(window.location.href);
       if (tokenParam) newUrl.searchParams.delete('token');
       if (repoParam) newUrl.searchParams.delete('repo');
+      if (refParam) newUrl.searchParams.delete('ref');
+      if (prParam) newUrl.searchParams.delete('pr');
       window.history.replaceState({}, document.title, newUrl.toString());
     }
 
@@ -84,6 +116,8 @@ const App: React.FC = () => {
     setState(prev => ({
       ...prev,
       repoUrl,
+      repoRef,
+      pullNumber,
       githubToken: savedToken,
       basebaseToken,
       basebaseProject,
@@ -157,6 +191,8 @@ const App: React.FC = () => {
       <DevEnvironment 
         githubToken={state.githubToken}
         repoUrl={state.repoUrl}
+        requestedRef={state.repoRef}
+        pullNumber={state.pullNumber}
         basebaseToken={state.basebaseToken}
         basebaseProject={state.basebaseProject}
       />
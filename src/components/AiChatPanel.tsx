@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import ReactMarkdown from 'react-markdown';
 import WebContainerManager from '../utils/webcontainer-manager';
+import { ProblemChecker } from '../utils/problems';
 import type { WebContainer } from '@webcontainer/api';
 
 // Define types locally since we're no longer importing from SDKs
@@ -25,7 +26,7 @@ interface ToolResultBlockParam {
 
 type ApiProvider = 'anthropic' | 'google';
 
-interface UiMessage {
+export interface UiMessage {
   id: string;
   role: 'user' | 'assistant';
   content: ContentBlock[];
@@ -33,10 +34,13 @@ interface UiMessage {
 
 interface AiChatPanelProps {
   webcontainer: WebContainer | null;
+  // Conversation restored from a saved workspace
+  initialMessages?: UiMessage[];
+  onMessagesChange?: (messages: UiMessage[]) => void;
 }
 
-const AiChatPanel: React.FC<AiChatPanelProps> = ({ webcontainer }) => {
-  const [messages, setMessages] = useState<UiMessage[]>([
+const AiChatPanel: React.FC<AiChatPanelProps> = ({ webcontainer, initialMessages, onMessagesChange }) => {
+  const [messages, setMessages] = useState<UiMessage[]>(() => initialMessages?.length ? initialMessages : [
     {
       id: 'initial-message',
       role: 'assistant',
@@ -51,6 +55,10 @@ const AiChatPanel: React.FC<AiChatPanelProps> = ({ webcontainer }) => {
   const messagesEndRef = useRef<HTMLDivElement | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
 
+  useEffect(() => {
+    onMessagesChange?.(messages);
+  }, [messages, onMessagesChange]);
+
   // Check API availability on mount
   useEffect(() => {
     const checkApiStatus = async (): Promise<void> => {
@@ -87,7 +95,7 @@ const AiChatPanel: React.FC<AiChatPanelProps> = ({ webcontainer }) => {
   const getSystemPrompt = async (): Promise<string> => {
     const files = await WebContainerManager.listFiles('*', '.', true);
     const repoStructure = files.join('\n');
-    const currentErrors = ''; // Placeholder
+    const currentErrors = ProblemChecker.describe();
     const recentFiles = ''; // Placeholder
 
     return `You are a coding assistant working on a web app project. You have access to tools to read, write, and analyze files.
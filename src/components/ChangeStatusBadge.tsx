@@ -0,0 +1,20 @@
+import React from 'react';
+import type { ChangeStatus } from '../utils/change-tracker';
+
+const STATUS_LABELS: Record<ChangeStatus, { letter: string; className: string }> = {
+  added: { letter: 'A', className: 'text-green-600 dark:text-green-400' },
+  modified: { letter: 'M', className: 'text-yellow-600 dark:text-yellow-400' },
+  deleted: { letter: 'D', className: 'text-red-600 dark:text-red-400' },
+  renamed: { letter: 'R', className: 'text-blue-600 dark:text-blue-400' },
+};
+
+const ChangeStatusBadge: React.FC<{ status: ChangeStatus }> = ({ status }) => {
+  const { letter, className } = STATUS_LABELS[status];
+  return (
+    <span className={`font-mono font-bold w-5 flex-shrink-0 ${className}`} title={status}>
+      {letter}
+    </span>
+  );
+};
+
+export default ChangeStatusBadge;
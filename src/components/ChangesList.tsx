@@ -0,0 +1,67 @@
+import React from 'react';
+import { ChangeTracker } from '../utils/change-tracker';
+import type { FileChange } from '../utils/change-tracker';
+import ChangeStatusBadge from './ChangeStatusBadge';
+
+interface ChangesListProps {
+  changes: FileChange[];
+  onOpenFile: (path: string) => void;
+  onOpenDiff: (change: FileChange) => void;
+  onRevert: (change: FileChange) => void;
+}
+
+const ChangesList: React.FC<ChangesListProps> = ({ changes, onOpenFile, onOpenDiff, onRevert }) => {
+  const includedCount = changes.filter((change) => !change.excluded).length;
+
+  return (
+    <div className="h-full flex flex-col bg-white dark:bg-gray-800 transition-colors">
+      <div className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-b dark:border-gray-700 transition-colors">
+        {changes.length === 0
+          ? 'No changes since the repository was cloned.'
+          : `${includedCount} of ${changes.length} changed files will be published`}
+      </div>
+      <ul className="flex-1 overflow-y-auto divide-y dark:divide-gray-700">
+        {changes.map((change) => (
+          <li
+            key={change.path}
+            className={`group flex items-center px-2 py-1.5 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+              change.excluded ? 'opacity-50' : ''
+            }`}
+          >
+            <input
+              type="checkbox"
+              checked={!change.excluded}
+              onChange={() => ChangeTracker.setExcluded(change.path, !change.excluded)}
+              className="mr-2 flex-shrink-0"
+              title={change.excluded ? 'Left out of publishing' : 'Included when publishing'}
+            />
+            <ChangeStatusBadge status={change.status} />
+            <button
+              onClick={() => (change.status === 'deleted' ? onOpenDiff(change) : onOpenFile(change.path))}
+              className="flex-1 min-w-0 text-left font-mono text-xs text-gray-800 dark:text-gray-200 truncate hover:underline transition-colors"
+              title={change.oldPath ? `${change.oldPath} → ${change.path}` : change.path}
+            >
+              <span className={change.status === 'deleted' ? 'line-through' : ''}>{change.path}</span>
+            </button>
+            <button
+              onClick={() => onOpenDiff(change)}
+              className="ml-1 text-xs text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Open diff"
+            >
+              ⇄
+            </button>
+            <button
+              onClick={() => onRevert(change)}
+              className="ml-1 text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+              title="Revert to the cloned version"
+            >
+              ↺
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ChangesList;
@@ -1,146 +1,301 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import Editor from '@monaco-editor/react';
 import type { editor } from 'monaco-editor';
+import type { EditorTab, EditorTabsState } from '../utils/editor-tabs';
+import { resolveEditorConfig } from '../utils/editorconfig';
+import { formatWithPrettier } from '../utils/formatter';
+import { LANGUAGES, languageForPath, languageLabel, registerLanguages } from '../utils/languages';
+import { ProblemChecker } from '../utils/problems';
+import { TypeScriptService } from '../utils/typescript-service';
+import { watchEffectiveTheme } from '../utils/theme';
 
-interface FileNode {
-  name: string;
-  type: 'file' | 'directory';
-  path: string;
-  children?: FileNode[];
-  content?: string;
-}
+type MonacoApi = typeof import('monaco-editor');
+
+const FORMAT_ON_SAVE_KEY = 'basebase_format_on_save';
+
+// Line and column of an offset into text with "\n" line breaks
+const positionAt = (text: string, offset: number): { lineNumber: number; column: number } => {
+  const lines = text.slice(0, offset).split('\n');
+  return { lineNumber: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+// Replaces only the stretch that differs, so the cursor and scroll position stay put
+const replaceChangedText = (monaco: MonacoApi, model: editor.ITextModel, text: string): void => {
+  const current = model.getValue(monaco.editor.EndOfLinePreference.LF);
+  const next = text.replace(/\r\n?/g, '\n');
+  if (current === next) return;
+
+  let start = 0;
+  while (start < current.length && start < next.length && current[start] === next[start]) start++;
+  let end = 0;
+  while (
+    end < current.length - start &&
+    end < next.length - start &&
+    current[current.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const from = positionAt(current, start);
+  const to = positionAt(current, current.length - end);
+  model.pushEditOperations(
+    [],
+    [{
+      range: { startLineNumber: from.lineNumber, startColumn: from.column, endLineNumber: to.lineNumber, endColumn: to.column },
+      text: next.slice(start, next.length - end),
+    }],
+    () => null
+  );
+};
+
+/**
+ * Formats the editor's file with the project's Prettier, or with Monaco's own
+ * formatter when Prettier isn't installed or doesn't handle the file, and
+ * applies the .editorconfig line endings.
+ */
+const formatModel = async (codeEditor: editor.IStandaloneCodeEditor, monaco: MonacoApi): Promise<void> => {
+  const model = codeEditor.getModel();
+  if (!model || model.uri.scheme !== 'file') return;
+
+  const path = model.uri.path.slice(1);
+  const version = model.getAlternativeVersionId();
+  const [formatted, config] = await Promise.all([formatWithPrettier(path, model.getValue()), resolveEditorConfig(path)]);
+  // Typed into while Prettier ran; formatting now would undo that
+  if (model.isDisposed() || model.getAlternativeVersionId() !== version) return;
+
+  if (config.endOfLine) {
+    const { CRLF, LF } = monaco.editor.EndOfLineSequence;
+    model.pushEOL(config.endOfLine === 'crlf' ? CRLF : LF);
+  }
+  if (formatted !== null) {
+    replaceChangedText(monaco, model, formatted);
+  } else if (codeEditor.getModel() === model) {
+    await codeEditor.getAction('editor.action.formatDocument')?.run();
+  }
+};
 
 interface CodeEditorProps {
-  file: FileNode | null;
-  onFileUpdate: (path: string, content: string) => void;
+  tab: EditorTab | null;
+  reveal: EditorTabsState['reveal'];
+  onChange: (path: string, content: string) => void;
+  onSave: (path: string) => void;
+  // null goes back to the language detected from the file
+  onLanguageChange: (path: string, language: string | null) => void;
+  onRevealed: () => void;
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ file, onFileUpdate }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ tab, reveal, onChange, onSave, onLanguageChange, onRevealed }) => {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
-  const [editorValue, setEditorValue] = useState<string>('');
-  const updateTimeoutRef = useRef<number | null>(null);
-  const currentFilePathRef = useRef<string | null>(null);
-
-  const getLanguage = (fileName: string): string => {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'ts':
-      case 'tsx':
-        return 'typescript';
-      case 'js':
-      case 'jsx':
-        return 'javascript';
-      case 'json':
-        return 'json';
-      case 'css':
-        return 'css';
-      case 'html':
-        return 'html';
-      case 'md':
-        return 'markdown';
-      default:
-        return 'plaintext';
+  const monacoRef = useRef<MonacoApi | null>(null);
+  const [isMounted, setIsMounted] = useState<boolean>(false);
+  const [theme, setTheme] = useState<'light' | 'dark'>('light');
+  const [formatOnSave, setFormatOnSave] = useState<boolean>(() => localStorage.getItem(FORMAT_ON_SAVE_KEY) !== 'false');
+  // Monaco commands are registered once, so they read the current tab through a ref
+  const tabRef = useRef<EditorTab | null>(tab);
+  const onSaveRef = useRef(onSave);
+  const formatOnSaveRef = useRef(formatOnSave);
+
+  useEffect(() => {
+    tabRef.current = tab;
+    onSaveRef.current = onSave;
+    formatOnSaveRef.current = formatOnSave;
+  }, [tab, onSave, formatOnSave]);
+
+  useEffect(() => {
+    localStorage.setItem(FORMAT_ON_SAVE_KEY, String(formatOnSave));
+  }, [formatOnSave]);
+
+  useEffect(() => watchEffectiveTheme(setTheme), []);
+
+  const detectedLanguage = tab && !tab.binary ? languageForPath(tab.path, tab.content) : 'plaintext';
+  const language = tab?.language ?? detectedLanguage;
+
+  const formatDocument = async (): Promise<void> => {
+    if (!editorRef.current || !monacoRef.current) return;
+    try {
+      await formatModel(editorRef.current, monacoRef.current);
+    } catch (error) {
+      console.error('Failed to format:', error);
+      alert(`Couldn't format the file: ${error instanceof Error ? error.message : String(error)}`);
     }
   };
 
-  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor): void => {
+  const handleEditorDidMount = (editor: editor.IStandaloneCodeEditor, monaco: MonacoApi): void => {
     editorRef.current = editor;
-  };
-
-  const handleBeforeMount = (monaco: typeof import('monaco-editor')): void => {
-    // Disable validation/linting for TypeScript and JavaScript
-    monaco.languages.typescript.typescriptDefaults.setDiagnosticsOptions({
-      noSemanticValidation: true,
-      noSyntaxValidation: true,
-      noSuggestionDiagnostics: true,
+    monacoRef.current = monaco;
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, async () => {
+      const current = tabRef.current;
+      if (!current) return;
+      if (formatOnSaveRef.current && !current.binary) {
+        // A file that doesn't parse still gets saved, just unformatted
+        await formatModel(editor, monaco).catch((error) => console.warn(`Couldn't format ${current.path}:`, error));
+      }
+      onSaveRef.current(current.path);
     });
-
-    monaco.languages.typescript.javascriptDefaults.setDiagnosticsOptions({
-      noSemanticValidation: true,
-      noSyntaxValidation: true,
-      noSuggestionDiagnostics: true,
+    editor.addAction({
+      id: 'basebase.formatDocument',
+      label: 'Format Document (Prettier)',
+      keybindings: [monaco.KeyMod.Shift | monaco.KeyMod.Alt | monaco.KeyCode.KeyF],
+      contextMenuGroupId: '1_modification',
+      run: formatDocument,
     });
+    setIsMounted(true);
   };
 
-  const debouncedUpdate = useCallback((path: string, content: string) => {
-    if (updateTimeoutRef.current) {
-      clearTimeout(updateTimeoutRef.current);
-    }
-    updateTimeoutRef.current = window.setTimeout(() => {
-      onFileUpdate(path, content);
-    }, 500); // 500ms debounce
-  }, [onFileUpdate]);
+  const handleBeforeMount = (monaco: MonacoApi): void => {
+    registerLanguages(monaco);
+    TypeScriptService.attach(monaco);
+    ProblemChecker.showMarkers(monaco);
+  };
 
   const handleEditorChange = (value: string | undefined): void => {
-    if (file && value !== undefined) {
-      setEditorValue(value);
-      debouncedUpdate(file.path, value);
+    if (tab && value !== undefined && value !== tab.content) {
+      onChange(tab.path, value);
     }
   };
 
+  // Each file keeps its Monaco model (and undo history) between tab switches;
+  // a model left over from an earlier time the file was open may be stale.
+  // Only checked when switching files; edits flow in through the value prop
+  useEffect(() => {
+    const model = editorRef.current?.getModel();
+    const current = tabRef.current;
+    if (isMounted && current && model && model.getValue() !== current.content) {
+      model.setValue(current.content);
+    }
+  }, [isMounted, tab?.path]);
+
+  // The Editor only sets the language when the prop changes, so a model kept
+  // from an earlier visit may still have the one it had then
   useEffect(() => {
-    // Only update editor when switching to a different file
-    if (file && file.path !== currentFilePathRef.current) {
-      currentFilePathRef.current = file.path;
-      setEditorValue(file.content || '');
+    const model = editorRef.current?.getModel();
+    if (isMounted && model && model.getLanguageId() !== language) {
+      monacoRef.current?.editor.setModelLanguage(model, language);
     }
-  }, [file]); // React to any file change
+  }, [isMounted, tab?.path, language]);
 
+  // Indentation from .editorconfig; without one Monaco detects it from the file
   useEffect(() => {
-    // Cleanup timeout on unmount
+    const path = tab?.path;
+    if (!isMounted || !path) return;
+    let cancelled = false;
+    resolveEditorConfig(path)
+      .then((config) => {
+        const model = editorRef.current?.getModel();
+        if (cancelled || !model || model.uri.path !== `/${path}`) return;
+        model.updateOptions({
+          ...(config.indentStyle && { insertSpaces: config.indentStyle === 'space' }),
+          ...(config.indentSize && { indentSize: config.indentSize }),
+          ...(config.tabWidth && { tabSize: config.tabWidth }),
+        });
+      })
+      .catch((error) => console.warn(`Couldn't read .editorconfig for ${path}:`, error));
     return () => {
-      if (updateTimeoutRef.current) {
-        clearTimeout(updateTimeoutRef.current);
-      }
+      cancelled = true;
     };
-  }, []);
+  }, [isMounted, tab?.path]);
+
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!isMounted || !editor || !reveal || reveal.path !== tab?.path) return;
+    editor.setPosition({ lineNumber: reveal.line, column: reveal.column });
+    editor.revealPositionInCenter({ lineNumber: reveal.line, column: reveal.column });
+    editor.focus();
+    onRevealed();
+  }, [isMounted, reveal, tab?.path, onRevealed]);
 
   return (
     <div className="h-full flex flex-col">
-      <div className="bg-gray-50 px-4 py-2 border-b flex items-center justify-between">
-        <h3 className="text-sm font-medium text-gray-700">
-          {file ? file.name : 'No file selected'}
-        </h3>
-        {file && (
-          <span className="text-xs text-gray-500 bg-gray-200 px-2 py-1 rounded">
-            {getLanguage(file.name)}
-          </span>
+      <div className="bg-gray-50 dark:bg-gray-900 px-4 py-1 border-b dark:border-gray-700 flex items-center justify-between transition-colors">
+        <span className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate transition-colors" title={tab?.path}>
+          {tab ? tab.path : 'No file selected'}
+        </span>
+        {tab && (
+          <div className="flex items-center space-x-3 flex-shrink-0 ml-2">
+            {!tab.binary && (
+              <>
+                <label
+                  className="flex items-center space-x-1 text-xs text-gray-500 dark:text-gray-400 cursor-pointer transition-colors"
+                  title="Format with Prettier, or Monaco's formatter without it, when saving"
+                >
+                  <input type="checkbox" checked={formatOnSave} onChange={(e) => setFormatOnSave(e.target.checked)} />
+                  <span>Format on save</span>
+                </label>
+                <button
+                  onClick={formatDocument}
+                  className="text-xs text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                  title="Format document (Shift+Alt+F)"
+                >
+                  Format
+                </button>
+              </>
+            )}
+            {tab.binary ? (
+              <span className="text-xs text-gray-500 dark:text-gray-400 bg-gray-200 dark:bg-gray-700 px-2 py-0.5 rounded transition-colors">
+                binary
+              </span>
+            ) : (
+              <select
+                value={tab.language ?? ''}
+                onChange={(e) => onLanguageChange(tab.path, e.target.value || null)}
+                className="text-xs text-gray-500 dark:text-gray-400 bg-gray-200 dark:bg-gray-700 px-1 py-0.5 rounded border-none focus:outline-none focus:ring-1 focus:ring-brand-500 transition-colors"
+                title="Language mode"
+              >
+                <option value="">Auto ({languageLabel(detectedLanguage)})</option>
+                {LANGUAGES.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
         )}
       </div>
-      
-      <div className="flex-1">
-        {file ? (
-          <Editor
-            height="100%"
-            language={getLanguage(file.name)}
-            value={editorValue}
-            beforeMount={handleBeforeMount}
-            onMount={handleEditorDidMount}
-            onChange={handleEditorChange}
-            theme="vs-light"
-            options={{
-              minimap: { enabled: false },
-              fontSize: 14,
-              lineNumbers: 'on',
-              roundedSelection: false,
-              scrollBeyondLastLine: false,
-              automaticLayout: true,
-              tabSize: 2,
-              insertSpaces: true,
-              wordWrap: 'on',
-            }}
-          />
-        ) : (
-          <div className="h-full flex items-center justify-center text-gray-500">
+
+      <div className="flex-1 min-h-0 relative">
+        {/* Stays mounted while tabs come and go so models and view state survive */}
+        <Editor
+          height="100%"
+          path={tab ? `file:///${tab.path}` : undefined}
+          language={language}
+          defaultValue={tab?.content ?? ''}
+          value={tab?.content ?? ''}
+          saveViewState
+          keepCurrentModel
+          beforeMount={handleBeforeMount}
+          onMount={handleEditorDidMount}
+          onChange={handleEditorChange}
+          theme={theme === 'dark' ? 'vs-dark' : 'vs-light'}
+          options={{
+            minimap: { enabled: false },
+            fontSize: 14,
+            lineNumbers: 'on',
+            roundedSelection: false,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+            // Defaults for new files; .editorconfig and the file's own indentation win
+            tabSize: 2,
+            insertSpaces: true,
+            wordWrap: 'on',
+            readOnly: !tab || tab.binary,
+          }}
+        />
+        {!tab ? (
+          <div className="absolute inset-0 flex items-center justify-center bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 transition-colors">
             <div className="text-center">
               <div className="text-4xl mb-4">📝</div>
               <p>Select a file from the explorer to start editing</p>
             </div>
           </div>
-        )}
+        ) : tab.binary ? (
+          <div className="absolute inset-0 flex items-center justify-center bg-white dark:bg-gray-800 text-gray-500 dark:text-gray-400 transition-colors">
+            <p>This is a binary file and can't be edited here.</p>
+          </div>
+        ) : null}
       </div>
     </div>
   );
 };
 
-export default CodeEditor; 
\ No newline at end of file
+export default CodeEditor;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { joinMergeChunks } from '../utils/merge';
+import type { MergeChunk } from '../utils/merge';
+
+export interface FileConflict {
+  path: string;
+  // What we're about to commit and what the branch has now; null means deleted
+  ours: string | Uint8Array | null;
+  theirs: Uint8Array | null;
+  // Line-level merge, or null when the file can only be taken whole (binary or deleted on one side)
+  chunks: MergeChunk[] | null;
+}
+
+interface ConflictResolverProps {
+  conflicts: FileConflict[];
+  resolved: Map<string, string | Uint8Array | null>;
+  onResolve: (path: string, content: string | Uint8Array | null) => void;
+  disabled: boolean;
+}
+
+type ChunkChoice = 'ours' | 'theirs' | 'both';
+
+const COLUMN_STYLES = {
+  base: 'bg-gray-50 dark:bg-gray-900/50',
+  ours: 'bg-green-50 dark:bg-green-900/30',
+  theirs: 'bg-blue-50 dark:bg-blue-900/30',
+};
+
+const LinesColumn: React.FC<{ title: string; lines: string[]; tone: keyof typeof COLUMN_STYLES }> = ({ title, lines, tone }) => (
+  <div className={`flex-1 min-w-0 ${COLUMN_STYLES[tone]}`}>
+    <div className="px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 border-b dark:border-gray-700">{title}</div>
+    <pre className="px-2 py-1 text-xs font-mono whitespace-pre-wrap break-all text-gray-800 dark:text-gray-200">
+      {lines.length > 0 ? lines.join('') : <em className="text-gray-400">(no lines)</em>}
+    </pre>
+  </div>
+);
+
+const describe = (content: string | Uint8Array | null): string =>
+  content === null ? 'deleted' : typeof content === 'string' ? 'changed' : 'changed (binary)';
+
+const ConflictResolver: React.FC<ConflictResolverProps> = ({ conflicts, resolved, onResolve, disabled }) => {
+  const [activePath, setActivePath] = useState<string>(conflicts[0].path);
+  // Lines picked for each conflict chunk, keyed by path and then chunk index
+  const [choices, setChoices] = useState<Map<string, Map<number, string[]>>>(new Map());
+
+  const active = conflicts.find((conflict) => conflict.path === activePath) ?? conflicts[0];
+  const activeChoices = choices.get(active.path) ?? new Map<number, string[]>();
+  const conflictIndexes = (active.chunks ?? []).flatMap((chunk, index) => (chunk.type === 'conflict' ? [index] : []));
+  const allChosen = conflictIndexes.every((index) => activeChoices.has(index));
+
+  const choose = (index: number, lines: string[]): void => {
+    const next = new Map(activeChoices).set(index, lines);
+    setChoices(new Map(choices).set(active.path, next));
+  };
+
+  const pick = (chunk: Extract<MergeChunk, { type: 'conflict' }>, choice: ChunkChoice): string[] =>
+    choice === 'ours' ? chunk.ours : choice === 'theirs' ? chunk.theirs : [...chunk.ours, ...chunk.theirs];
+
+  return (
+    <div className="flex flex-1 min-h-0 mb-4 border border-yellow-300 dark:border-yellow-700 rounded-md overflow-hidden transition-colors">
+      <div className="w-72 flex-shrink-0 overflow-y-auto border-r dark:border-gray-700 transition-colors">
+        <div className="px-3 py-2 text-xs text-yellow-800 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 border-b dark:border-gray-700">
+          These files also changed upstream since you cloned. Resolve them, then publish again.
+        </div>
+        <ul className="divide-y dark:divide-gray-700">
+          {conflicts.map((conflict) => (
+            <li
+              key={conflict.path}
+              onClick={() => setActivePath(conflict.path)}
+              className={`flex items-center px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                conflict.path === active.path ? 'bg-blue-50 dark:bg-brand-900/30' : ''
+              }`}
+            >
+              <span className="w-5 flex-shrink-0">{resolved.has(conflict.path) ? '✓' : '⚠'}</span>
+              <span className="flex-1 font-mono text-xs text-gray-800 dark:text-gray-200 truncate" title={conflict.path}>
+                {conflict.path}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex-1 overflow-auto p-3 space-y-3">
+        <div className="font-mono text-xs text-gray-600 dark:text-gray-300">{active.path}</div>
+
+        {active.chunks === null ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              You {describe(active.ours)} this file and it was {describe(active.theirs)} upstream.
+              It can't be merged line by line, so keep one version.
+            </p>
+            <div className="flex space-x-2">
+              <button
+                type="button"
+                onClick={() => onResolve(active.path, active.ours)}
+                disabled={disabled}
+                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 transition-colors"
+              >
+                Keep mine
+              </button>
+              <button
+                type="button"
+                onClick={() => onResolve(active.path, active.theirs)}
+                disabled={disabled}
+                className="px-3 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-300 transition-colors"
+              >
+                Take theirs
+              </button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {active.chunks.map((chunk, index) => {
+              if (chunk.type === 'resolved') {
+                return (
+                  <pre
+                    key={index}
+                    className="px-2 text-xs font-mono whitespace-pre-wrap break-all text-gray-500 dark:text-gray-400 max-h-24 overflow-hidden"
+                  >
+                    {chunk.lines.join('')}
+                  </pre>
+                );
+              }
+              const chosen = activeChoices.get(index);
+              return (
+                <div key={index} className="border dark:border-gray-700 rounded overflow-hidden">
+                  <div className="flex">
+                    <LinesColumn title="Original" lines={chunk.base} tone="base" />
+                    <LinesColumn title="Mine" lines={chunk.ours} tone="ours" />
+                    <LinesColumn title="Theirs (upstream)" lines={chunk.theirs} tone="theirs" />
+                  </div>
+                  <div className="flex items-center space-x-2 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-xs transition-colors">
+                    {(['ours', 'theirs', 'both'] as const).map((choice) => (
+                      <button
+                        key={choice}
+                        type="button"
+                        onClick={() => choose(index, pick(chunk, choice))}
+                        disabled={disabled}
+                        className="px-2 py-0.5 border border-gray-300 dark:border-gray-600 rounded hover:bg-white dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 transition-colors"
+                      >
+                        {choice === 'ours' ? 'Use mine' : choice === 'theirs' ? 'Use theirs' : 'Use both'}
+                      </button>
+                    ))}
+                  </div>
+                  {chosen && (
+                    <textarea
+                      value={chosen.join('')}
+                      onChange={(e) => choose(index, [e.target.value])}
+                      rows={Math.min(12, Math.max(2, chosen.join('').split('\n').length))}
+                      className="w-full px-2 py-1 font-mono text-xs border-t dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none transition-colors"
+                      disabled={disabled}
+                    />
+                  )}
+                </div>
+              );
+            })}
+            <button
+              type="button"
+              onClick={() => onResolve(active.path, joinMergeChunks(active.chunks!, activeChoices))}
+              disabled={disabled || !allChosen}
+              className="px-3 py-1 text-sm font-medium text-white bg-brand-600 hover:bg-brand-700 rounded disabled:opacity-50 transition-colors"
+            >
+              {allChosen ? 'Mark as resolved' : `Pick a side for ${conflictIndexes.length - activeChoices.size} more conflict(s)`}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConflictResolver;
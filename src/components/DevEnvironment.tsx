@@ -1,15 +1,33 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { WebContainer } from '@webcontainer/api';
 import { Octokit } from '@octokit/rest';
 import WebContainerManager from '../utils/webcontainer-manager';
+import { ChangeTracker } from '../utils/change-tracker';
+import { ProblemChecker } from '../utils/problems';
+import type { FileChange } from '../utils/change-tracker';
+import { EditorTabs, isDirty } from '../utils/editor-tabs';
+import { WorkspaceStore, projectKey, workspaceKey } from '../utils/workspace-store';
+import type { WorkspaceSnapshot } from '../utils/workspace-store';
+import { describeScript, findPackages, resolvePreviewScript, savePreviewScript, scriptArgs } from '../utils/package-scripts';
+import type { ScriptRef } from '../utils/package-scripts';
+import { buildFileSystemTree, downloadRepositoryArchive, fetchRepositoryContents, formatRepoRef, getPullRequest, parseRepoUrl, resolveRepoRef } from '../utils/github';
+import type { PullRequestInfo, RepoRef, RepositorySnapshot } from '../utils/github';
 import AiChatPanel from './AiChatPanel';
+import type { UiMessage } from './AiChatPanel';
 import PreviewPane from './PreviewPane';
+import type { DevServerExit } from './DevServerStoppedBanner';
 import PublishModal from './PublishModal';
 import LogsModal from './LogsModal';
+import PullRequestPicker from './PullRequestPicker';
+import EditorWorkspace from './EditorWorkspace';
+import type { SidebarView } from './EditorWorkspace';
+import ResizeHandle from './ResizeHandle';
 
 interface DevEnvironmentProps {
   githubToken: string | null;
   repoUrl: string;
+  requestedRef: string | null;
+  pullNumber: number | null;
   basebaseToken: string | null;
   basebaseProject: string | null;
 }
@@ -25,7 +43,53 @@ interface ServerInfo {
   port: number;
 }
 
-const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, basebaseToken, basebaseProject }) => {
+interface CheckedOut {
+  repoRef: RepoRef;
+  pullRequest: PullRequestInfo | null;
+}
+
+const EDITOR_WIDTH_KEY = 'basebase_editor_width';
+const SHOW_EDITOR_KEY = 'basebase_show_editor';
+// The editor can't squeeze the preview below this
+const MIN_PREVIEW_WIDTH = 240;
+const MIN_EDITOR_WIDTH = 360;
+
+// Edits are saved once they've settled for this long
+const WORKSPACE_SAVE_DELAY_MS = 2000;
+
+const DEV_SERVER_AUTO_RESTART_KEY = 'basebase_dev_server_auto_restart';
+// A dev server that dies sooner than this after starting counts towards a crash loop
+const CRASH_LOOP_WINDOW_MS = 30000;
+// Quick crashes in a row before auto-restart gives up
+const MAX_CRASH_RESTARTS = 5;
+const MAX_RESTART_DELAY_MS = 30000;
+
+// Waits twice as long after each quick crash in a row: 1s, 2s, 4s...
+const restartDelay = (crashes: number): number => Math.min(1000 * 2 ** (crashes - 1), MAX_RESTART_DELAY_MS);
+
+// .env.local holds the BaseBase token and is written again at every start, so it isn't kept
+const exportSource = (container: WebContainer): Promise<Uint8Array> =>
+  container.export('.', { format: 'binary', excludes: ['node_modules/**', '.env.local'] });
+
+// Saved chat history is whatever an older version stored; keep only messages that still look right
+const isUiMessage = (value: unknown): value is UiMessage => {
+  if (typeof value !== 'object' || value === null) return false;
+  const message = value as Partial<UiMessage>;
+  return (
+    typeof message.id === 'string' &&
+    (message.role === 'user' || message.role === 'assistant') &&
+    Array.isArray(message.content)
+  );
+};
+
+// Files the editor generates to run the project are part of the environment,
+// not the user's work, so keep them out of the change set
+const writeEnvironmentFile = async (container: WebContainer, path: string, content: string): Promise<void> => {
+  ChangeTracker.ignorePath(path);
+  await container.fs.writeFile(path, content);
+};
+
+const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, requestedRef, pullNumber, basebaseToken, basebaseProject }) => {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [loadingMessage, setLoadingMessage] = useState<string>('Initializing WebContainer...');
 
@@ -34,9 +98,40 @@ const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, b
   const [showPublishModal, setShowPublishModal] = useState<boolean>(false);
   const [showLogsModal, setShowLogsModal] = useState<boolean>(false);
   const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [modifiedFiles] = useState<Map<string, string>>(new Map());
+  const [changes, setChanges] = useState<FileChange[]>([]);
+  const [repoRef, setRepoRef] = useState<RepoRef | null>(null);
+  const [pullRequest, setPullRequest] = useState<PullRequestInfo | null>(null);
+  const [restoredAt, setRestoredAt] = useState<number | null>(null);
+  const [restoredChat, setRestoredChat] = useState<UiMessage[] | undefined>(undefined);
+  const [showEditor, setShowEditor] = useState<boolean>(() => localStorage.getItem(SHOW_EDITOR_KEY) !== 'false');
+  const [sidebarView, setSidebarView] = useState<SidebarView>('files');
+  const [editorWidth, setEditorWidth] = useState<number>(() => Number(localStorage.getItem(EDITOR_WIDTH_KEY)) || 720);
   const containerRef = useRef<WebContainer | null>(null);
   const initializedRef = useRef<boolean>(false);
+  const chatHistoryRef = useRef<UiMessage[]>([]);
+  // Saving starts once the workspace has a snapshot to update
+  const persistenceReadyRef = useRef<boolean>(false);
+  const saveTimeoutRef = useRef<number | null>(null);
+  const pendingSaveRef = useRef<boolean>(false);
+  // The dev server's id in the process registry, and what it takes to start it again
+  const devServerIdRef = useRef<number | null>(null);
+  const devServerEnvRef = useRef<Record<string, string> | null>(null);
+  const devServerOutputRef = useRef<{ write: (data: string) => void } | null>(null);
+  // The script serving the preview; the ref is what the next (re)start runs
+  const [previewScript, setPreviewScript] = useState<ScriptRef | null>(null);
+  const previewScriptRef = useRef<ScriptRef>({ directory: '', script: 'dev' });
+  // Set while the dev server is down; the ref mirrors the toggle for the exit handler
+  const [devServerExit, setDevServerExit] = useState<DevServerExit | null>(null);
+  const [autoRestart, setAutoRestart] = useState<boolean>(
+    () => localStorage.getItem(DEV_SERVER_AUTO_RESTART_KEY) !== 'false'
+  );
+  const autoRestartRef = useRef<boolean>(autoRestart);
+  const crashCountRef = useRef<number>(0);
+
+  const storageKey = useMemo(
+    () => workspaceKey(basebaseProject, repoUrl, requestedRef, pullNumber),
+    [basebaseProject, repoUrl, requestedRef, pullNumber]
+  );
 
   const addLog = useCallback((message: string, type: LogEntry['type'] = 'info'): void => {
     const newLog: LogEntry = {
@@ -51,161 +146,65 @@ const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, b
     setLogs([]);
   };
 
-  const cloneRepository = useCallback(async (container: WebContainer): Promise<void> => {
+  const cloneRepository = useCallback(async (container: WebContainer): Promise<CheckedOut> => {
     if (!githubToken) {
       throw new Error('GitHub token is required');
     }
 
     const octokit = new Octokit({ auth: githubToken });
-
-    // Parse repository URL to get owner and repo
-    const urlParts = repoUrl.replace('https://github.com/', '').split('/');
-    if (urlParts.length < 2) {
-      throw new Error('Invalid repository URL format');
-    }
-    const owner = urlParts[0];
-    const repo = urlParts[1];
-
-    interface FileSystemTree {
-      [name: string]: FileNode | DirectoryNode;
-    }
-
-    interface FileNode {
-      file: {
-        contents: string | Uint8Array;
-      };
+    let location = parseRepoUrl(repoUrl);
+
+    let resolvedRef: RepoRef;
+    let pr: PullRequestInfo | null = null;
+    if (pullNumber) {
+      // Check out the PR's head branch, which may live in a fork
+      setLoadingMessage(`Loading pull request #${pullNumber}...`);
+      pr = await getPullRequest(octokit, location, pullNumber);
+      setPullRequest(pr);
+      location = pr.head;
+      resolvedRef = { name: pr.head.branch, type: 'branch', sha: pr.head.sha, defaultBranch: pr.baseBranch };
+      addLog(`Opened pull request #${pr.number}: ${pr.title}`, 'info');
+    } else {
+      // An explicit ?ref= wins over a ref embedded in a pasted /tree/<branch> URL
+      setLoadingMessage('Resolving branch...');
+      resolvedRef = await resolveRepoRef(octokit, location, requestedRef ?? location.ref);
     }
+    setRepoRef(resolvedRef);
+    addLog(`Checking out ${resolvedRef.type} ${formatRepoRef(resolvedRef)} (${resolvedRef.sha.slice(0, 7)})`, 'info');
 
-    interface DirectoryNode {
-      directory: FileSystemTree;
+    // Clone the resolved commit rather than the ref name so a branch moving
+    // during the clone can't leave us with a different tree than we recorded
+    let snapshot: RepositorySnapshot;
+    try {
+      snapshot = await downloadRepositoryArchive(githubToken, location, resolvedRef.sha, setLoadingMessage);
+      addLog(`Downloaded repository archive (${snapshot.files.size} files)`, 'info');
+    } catch (archiveError) {
+      // The archive endpoint can be blocked (CORS, proxies); walk the tree file by file instead
+      console.warn('Archive download failed, falling back to per-file clone:', archiveError);
+      addLog(`Archive download failed, fetching files individually: ${archiveError}`, 'warn');
+      snapshot = await fetchRepositoryContents(octokit, location, resolvedRef.sha, setLoadingMessage);
     }
 
-    interface TreeEntry {
-      file?: {
-        contents: string | Uint8Array;
-      };
-      directory?: FileSystemTree;
+    if (snapshot.commitSha && snapshot.commitSha !== resolvedRef.sha) {
+      // Trust the archive about which commit it contains, since publishing diffs against it
+      addLog(`Archive is for commit ${snapshot.commitSha.slice(0, 7)}, expected ${resolvedRef.sha.slice(0, 7)}`, 'warn');
+      resolvedRef = { ...resolvedRef, sha: snapshot.commitSha };
+      setRepoRef(resolvedRef);
     }
 
-    const filesMap = new Map<string, string | Uint8Array>();
-    
-    // Helper function to recursively get all files from a directory
-    const getDirectoryContents = async (path: string = ''): Promise<void> => {
-      try {
-        const { data: contents } = await octokit.repos.getContent({
-          owner,
-          repo,
-          path
-        });
-
-        if (Array.isArray(contents)) {
-          for (const item of contents) {
-            if (item.type === 'file' && item.download_url) {
-              const response = await fetch(item.download_url);
-              
-              // Check if this is a binary file based on extension
-              const isBinaryFile = /\.(png|jpg|jpeg|gif|svg|ico|webp|woff|woff2|ttf|eot|pdf|zip|tar|gz|mp4|mov|avi|mp3|wav)$/i.test(item.path);
-              
-              if (isBinaryFile) {
-                // Handle binary files properly
-                const arrayBuffer = await response.arrayBuffer();
-                const uint8Array = new Uint8Array(arrayBuffer);
-                filesMap.set(item.path, uint8Array);
-              } else {
-                // Handle text files normally
-                const content = await response.text();
-                filesMap.set(item.path, content);
-              }
-            } else if (item.type === 'dir') {
-              // Recursively get contents of subdirectory
-              await getDirectoryContents(item.path);
-            }
-          }
-        } else if (contents.type === 'file' && contents.download_url) {
-          // Single file
-          const response = await fetch(contents.download_url);
-          
-          // Check if this is a binary file based on extension
-          const isBinaryFile = /\.(png|jpg|jpeg|gif|svg|ico|webp|woff|woff2|ttf|eot|pdf|zip|tar|gz|mp4|mov|avi|mp3|wav)$/i.test(contents.path);
-          
-          if (isBinaryFile) {
-            // Handle binary files properly
-            const arrayBuffer = await response.arrayBuffer();
-            const uint8Array = new Uint8Array(arrayBuffer);
-            filesMap.set(contents.path, uint8Array);
-          } else {
-            // Handle text files normally
-            const content = await response.text();
-            filesMap.set(contents.path, content);
-          }
-        }
-      } catch (error) {
-        console.warn(`Failed to get contents for path: ${path}`, error);
-      }
-    };
-
-    // Get all files recursively
-    await getDirectoryContents();
-
-
-
-    // Build proper FileSystemTree
-    const fileSystemTree: FileSystemTree = {};
-    
-    for (const [path, content] of filesMap) {
-      const parts = path.split('/').filter(part => part.length > 0);
-      let current = fileSystemTree;
-      
-      for (let i = 0; i < parts.length; i++) {
-        const part = parts[i];
-        const isLastPart = i === parts.length - 1;
-        
-        if (isLastPart) {
-          // This is a file
-          current[part] = {
-            file: {
-              contents: content
-            }
-          };
-        } else {
-          // This is a directory
-          if (!current[part]) {
-            current[part] = {
-              directory: {}
-            };
-          }
-          current = (current[part] as DirectoryNode).directory;
-        }
-      }
-    }
-
-
+    const fileSystemTree = buildFileSystemTree(snapshot);
+    ChangeTracker.setBaseline(snapshot.files);
 
     try {
+      setLoadingMessage(`Mounting ${snapshot.files.size} files...`);
       await container.mount(fileSystemTree);
       
       // WORKAROUND: Directly write binary files to fix corruption issue
-      const rewriteBinaryFiles = async (tree: FileSystemTree, currentPath = '') => {
-        for (const [key, value] of Object.entries(tree)) {
-          const fullPath = currentPath ? `${currentPath}/${key}` : key;
-          
-          const entry = value as TreeEntry;
-          if (entry && typeof entry === 'object') {
-            if ('file' in entry && entry.file?.contents) {
-              const contents = entry.file.contents;
-              
-              // Only rewrite binary files (images)
-              if (contents instanceof Uint8Array && key.match(/\.(png|jpg|jpeg|gif|svg|ico|webp|avif)$/i)) {
-                await container.fs.writeFile(fullPath, contents);
-              }
-            } else if ('directory' in entry && entry.directory) {
-              await rewriteBinaryFiles(entry.directory, fullPath);
-            }
-          }
+      for (const [path, contents] of snapshot.files) {
+        if (contents instanceof Uint8Array && path.match(/\.(png|jpg|jpeg|gif|svg|ico|webp|avif)$/i)) {
+          await container.fs.writeFile(path, contents);
         }
-      };
-      
-      await rewriteBinaryFiles(fileSystemTree);
+      }
       
     } catch (mountError) {
       console.error('Failed to mount FileSystemTree:', mountError);
@@ -214,12 +213,123 @@ const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, b
 
     
     // Note: WebContainer doesn't have git installed, so we'll use GitHub API for version control
-  }, [githubToken, repoUrl]);
+    return { repoRef: resolvedRef, pullRequest: pr };
+  }, [githubToken, repoUrl, requestedRef, pullNumber, addLog]);
+
+  const restoreWorkspace = useCallback(async (container: WebContainer, saved: WorkspaceSnapshot): Promise<void> => {
+    setLoadingMessage('Restoring saved workspace...');
+    await container.mount(saved.source);
+    if (saved.dependencies) {
+      setLoadingMessage('Restoring installed dependencies...');
+      await container.fs.mkdir('node_modules', { recursive: true });
+      await container.mount(saved.dependencies, { mountPoint: 'node_modules' });
+    }
+
+    ChangeTracker.restore(saved.baseline, saved.changes);
+    setRepoRef(saved.repoRef);
+    setPullRequest(saved.pullRequest);
+    const chatHistory = Array.isArray(saved.chatHistory) ? saved.chatHistory.filter(isUiMessage) : [];
+    setRestoredChat(chatHistory);
+    chatHistoryRef.current = chatHistory;
+    setRestoredAt(saved.savedAt);
+    addLog(`Restored workspace saved ${new Date(saved.savedAt).toLocaleString()} (${saved.changes.length} changed files)`, 'info');
+  }, [addLog]);
+
+  // Records everything needed to come back to this workspace, node_modules included
+  const saveWorkspace = useCallback(async (container: WebContainer, checkedOut: CheckedOut): Promise<void> => {
+    let dependencies: Uint8Array | null = null;
+    try {
+      dependencies = await container.export('node_modules', { format: 'binary' });
+    } catch (exportError) {
+      // Too large or missing; a restored workspace will run npm install instead
+      console.warn('Could not export node_modules:', exportError);
+    }
+
+    try {
+      await WorkspaceStore.save({
+        key: storageKey,
+        savedAt: Date.now(),
+        ...checkedOut,
+        source: await exportSource(container),
+        dependencies,
+        baseline: ChangeTracker.getBaseline(),
+        changes: ChangeTracker.getChanges(),
+        chatHistory: chatHistoryRef.current,
+      });
+      persistenceReadyRef.current = true;
+      console.log('💾 Workspace saved:', storageKey);
+    } catch (saveError) {
+      console.warn('Failed to save workspace:', saveError);
+      addLog(`Workspace couldn't be saved for offline restore: ${saveError}`, 'warn');
+    }
+  }, [storageKey, addLog]);
+
+  // Later saves only refresh the source tree, the change set and the chat
+  const scheduleSave = useCallback((): void => {
+    if (!persistenceReadyRef.current) return;
+    pendingSaveRef.current = true;
+    if (saveTimeoutRef.current) {
+      clearTimeout(saveTimeoutRef.current);
+    }
+    saveTimeoutRef.current = window.setTimeout(async () => {
+      saveTimeoutRef.current = null;
+      const container = containerRef.current;
+      if (!container) return;
+      try {
+        await WorkspaceStore.update(storageKey, {
+          source: await exportSource(container),
+          changes: ChangeTracker.getChanges(),
+          chatHistory: chatHistoryRef.current,
+        });
+        console.log('💾 Workspace updated:', storageKey);
+      } catch (saveError) {
+        console.warn('Failed to update saved workspace:', saveError);
+      } finally {
+        pendingSaveRef.current = saveTimeoutRef.current !== null;
+      }
+    }, WORKSPACE_SAVE_DELAY_MS);
+  }, [storageKey]);
 
+  const handleMessagesChange = useCallback((messages: UiMessage[]): void => {
+    chatHistoryRef.current = messages;
+    scheduleSave();
+  }, [scheduleSave]);
+
+  useEffect(() => {
+    localStorage.setItem(SHOW_EDITOR_KEY, String(showEditor));
+  }, [showEditor]);
 
+  useEffect(() => {
+    localStorage.setItem(EDITOR_WIDTH_KEY, String(editorWidth));
+  }, [editorWidth]);
+
+  useEffect(() => {
+    localStorage.setItem(DEV_SERVER_AUTO_RESTART_KEY, String(autoRestart));
+    autoRestartRef.current = autoRestart;
+  }, [autoRestart]);
+
+  const resizeEditor = useCallback((delta: number): void => {
+    // Leave room for the chat panel and a usable preview
+    const maxWidth = window.innerWidth - 425 - MIN_PREVIEW_WIDTH;
+    setEditorWidth((width) => Math.max(MIN_EDITOR_WIDTH, Math.min(maxWidth, width + delta)));
+  }, []);
 
-  const installDependencies = useCallback(async (container: WebContainer): Promise<void> => {
-    const installProcess = await container.spawn('npm', ['install']);
+  const discardWorkspace = async (): Promise<void> => {
+    if (!window.confirm('Discard this saved workspace and clone the repository again? Unpublished changes will be lost.')) {
+      return;
+    }
+    await WorkspaceStore.remove(storageKey);
+    persistenceReadyRef.current = false;
+    pendingSaveRef.current = false;
+    window.location.reload();
+  };
+
+
+
+  const installDependencies = useCallback(async (): Promise<void> => {
+    const installProcess = await WebContainerManager.spawn('npm', ['install']);
+    // The registry keeps the output; this copy isn't read
+    installProcess.output.cancel().catch(() => {});
     const exitCode = await installProcess.exit;
     
     if (exitCode !== 0) {
@@ -346,6 +456,98 @@ const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, b
     }
   };*/
 
+  const spawnDevServer = useCallback(async (): Promise<void> => {
+    const { directory, script } = previewScriptRef.current;
+    const devProcess = await WebContainerManager.spawn('npm', scriptArgs(script), {
+      cwd: directory || undefined,
+      env: devServerEnvRef.current ?? {},
+      kind: 'dev-server',
+    });
+    devServerIdRef.current = devProcess.id;
+    setDevServerExit(null);
+    devProcess.output
+      .pipeTo(new WritableStream({ write: (data: string) => devServerOutputRef.current?.write(data) }))
+      .catch(() => {});
+
+    const startedAt = Date.now();
+    devProcess.exit.then((exitCode) => {
+      // Replaced by a restart
+      if (devServerIdRef.current !== devProcess.id) return;
+      const killed = WebContainerManager.getProcesses().find((info) => info.id === devProcess.id)?.killed ?? false;
+      crashCountRef.current = Date.now() - startedAt < CRASH_LOOP_WINDOW_MS ? crashCountRef.current + 1 : 1;
+      const crashes = crashCountRef.current;
+      const gaveUp = crashes > MAX_CRASH_RESTARTS;
+      const restarting = !killed && !gaveUp && autoRestartRef.current;
+      console.log(`💥 Dev server exited with code ${exitCode}`);
+      addLog(
+        `Development server stopped (exit code ${exitCode})${
+          restarting ? `, restarting in ${restartDelay(crashes) / 1000}s` : ''
+        }`,
+        killed ? 'info' : 'error'
+      );
+      setDevServerExit({
+        processId: devProcess.id,
+        exitCode,
+        killed,
+        crashes,
+        gaveUp,
+        restartAt: restarting ? Date.now() + restartDelay(crashes) : null,
+      });
+      // Show the workspace and the reason even if the server never came up
+      setIsLoading(false);
+    });
+  }, [addLog]);
+
+  // Runs the restart the exit handler scheduled; restarting or starting by hand replaces it
+  useEffect(() => {
+    if (devServerExit?.restartAt == null) return;
+    const timeout = window.setTimeout(() => {
+      addLog('Restarting development server...', 'info');
+      spawnDevServer().catch((error) => {
+        console.error('Failed to restart the development server:', error);
+        addLog(`Failed to restart development server: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      });
+    }, Math.max(0, devServerExit.restartAt - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [devServerExit, addLog, spawnDevServer]);
+
+  const changeAutoRestart = useCallback((enabled: boolean): void => {
+    setAutoRestart(enabled);
+    if (!enabled) {
+      setDevServerExit((exit) => exit && { ...exit, restartAt: null });
+    }
+  }, []);
+
+  const restartDevServer = useCallback(async (): Promise<void> => {
+    // Not started yet; the setup will start it
+    if (!devServerEnvRef.current) return;
+    if (devServerIdRef.current !== null) {
+      const previousId = devServerIdRef.current;
+      // Forget it first so its exit isn't taken for a crash
+      devServerIdRef.current = null;
+      WebContainerManager.killProcess(previousId);
+    }
+    crashCountRef.current = 0;
+    addLog('Restarting development server...', 'info');
+    try {
+      await spawnDevServer();
+    } catch (error) {
+      console.error('Failed to restart the development server:', error);
+      addLog(`Failed to restart development server: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    }
+  }, [addLog, spawnDevServer]);
+
+  const changePreviewScript = useCallback(
+    (ref: ScriptRef): void => {
+      savePreviewScript(projectKey(basebaseProject, repoUrl), ref);
+      previewScriptRef.current = ref;
+      setPreviewScript(ref);
+      addLog(`Serving the preview with ${describeScript(ref)}`, 'info');
+      restartDevServer();
+    },
+    [basebaseProject, repoUrl, addLog, restartDevServer]
+  );
+
   const startDevServer = useCallback(async (container: WebContainer): Promise<void> => {
     let hasWebContainerUrl = false; // Track if we have a WebContainer URL
     
@@ -376,7 +578,7 @@ const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, b
         installDependencies: true,
         startCommand: "npm run dev"
       };
-      await container.fs.writeFile('.stackblitzrc', JSON.stringify(stackblitzConfig, null, 2));
+      await writeEnvironmentFile(container, '.stackblitzrc', JSON.stringify(stackblitzConfig, null, 2));
       console.log('✅ Created .stackblitzrc with CORS proxy enabled');
       addLog('Enabled StackBlitz CORS proxy (requires subscription)', 'info');
     } catch (error) {
@@ -393,7 +595,7 @@ const DevEnvironment: React.FC<DevEnvironmentProps> = ({ githubToken, repoUrl, b
       // Try to copy existing vite.config.ts to vite.config.js
       try {
         const existingConfig = await container.fs.readFile('vite.config.ts', 'utf-8');
-        await container.fs.writeFile('vite.config.js', existingConfig);
+        await writeEnvironmentFile(container, 'vite.config.js', existingConfig);
         console.log('✅ Copied existing vite.config.ts to vite.config.js');
       } catch {
         // No existing config, create a WebContainer-optimized one
@@ -809,7 +1011,7 @@ export default defineConfig({
 })
 `;
         try {
-          await container.fs.writeFile('vite.config.js', viteConfig);
+          await writeEnvironmentFile(container, 'vite.config.js', viteConfig);
           console.log('✅ Created WebContainer-optimized vite.config.js with CORS proxy');
           addLog('Created optimized Vite config with image proxy', 'info');
         } catch (writeError) {
@@ -911,7 +1113,7 @@ module.exports = nextConfig;
         const packageJson = await container.fs.readFile('package.json', 'utf-8');
         const pkg = JSON.parse(packageJson);
         if (pkg.dependencies?.next || pkg.devDependencies?.next) {
-          await container.fs.writeFile('next.config.js', nextConfig);
+          await writeEnvironmentFile(container, 'next.config.js', nextConfig);
           console.log('Created WebContainer-optimized next.config.js');
           
           // Create middleware for comprehensive request logging
@@ -937,7 +1139,7 @@ export const config = {
 }
 `;
           
-          await container.fs.writeFile('middleware.ts', middlewareContent);
+          await writeEnvironmentFile(container, 'middleware.ts', middlewareContent);
           
 
           
@@ -986,7 +1188,7 @@ export const config = {
         "sourceMaps": true
       };
       
-      await container.fs.writeFile('.swcrc', JSON.stringify(swcConfig, null, 2));
+      await writeEnvironmentFile(container, '.swcrc', JSON.stringify(swcConfig, null, 2));
       console.log('Created WebContainer-optimized .swcrc');
     } catch (error) {
       console.warn('Failed to create .swcrc:', error);
@@ -1052,7 +1254,7 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
 `;
       }
 
-      await container.fs.writeFile('.env.local', envContent);
+      await writeEnvironmentFile(container, '.env.local', envContent);
       console.log('✅ Created .env.local BEFORE starting dev server');
       if (basebaseProject) {
         console.log('✅ Added BASEBASE_PROJECT to .env.local:', basebaseProject);
@@ -1066,31 +1268,31 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
       console.warn('Failed to create .env.local:', error);
     }
 
-    const { process: devProcess } = await WebContainerManager.runCommandWithEnv('npm', ['run', 'dev'], env);
+    devServerEnvRef.current = env;
+
+    const resolved = await resolvePreviewScript(projectKey(basebaseProject, repoUrl));
+    if (!resolved) {
+      addLog('No dev, start, serve or preview script found; trying npm run dev. Pick another in the Scripts panel.', 'warn');
+    }
+    previewScriptRef.current = resolved ?? { directory: '', script: 'dev' };
+    setPreviewScript(previewScriptRef.current);
     
-    // Set up a timeout to try alternative start commands if the main one doesn't work
+    // Point at the Scripts panel if the preview script doesn't seem to be serving anything
     const fallbackTimeout = setTimeout(async () => {
-      console.log('🔧 Primary dev command taking longer than expected, checking for alternatives...');
-      
+      console.log('🔧 Preview script taking longer than expected to serve...');
+      const current = describeScript(previewScriptRef.current);
       try {
-        const packageJson = await container.fs.readFile('package.json', 'utf-8');
-        const pkg = JSON.parse(packageJson);
-        const scripts = pkg.scripts || {};
-        
-        console.log('Available scripts:', Object.keys(scripts));
-        
-        // Try alternative commands if available
-        const alternatives = ['start', 'serve', 'preview'];
-        for (const alt of alternatives) {
-          if (scripts[alt] && alt !== 'dev') {
-            console.log(`🔧 Found alternative script: ${alt}`);
-            addLog(`Trying alternative start command: npm run ${alt}`, 'info');
-            // Note: We won't actually run it here since the first process is already running
-            // This is just for logging what alternatives exist
-          }
-        }
+        const others = (await findPackages())
+          .flatMap((pkg) => Object.keys(pkg.scripts).map((script) => describeScript({ directory: pkg.directory, script })))
+          .filter((name) => name !== current);
+        addLog(
+          `No server from ${current} after 30 seconds.${
+            others.length > 0 ? ` Other scripts: ${others.join(', ')}.` : ''
+          } Pick the one that serves the app in the Scripts panel.`,
+          'warn'
+        );
       } catch (error) {
-        console.warn('Could not check package.json for alternatives:', error);
+        console.warn('Could not list the project\'s scripts:', error);
       }
     }, 30000); // 30 seconds
     
@@ -1101,7 +1303,7 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
     };
 
     // Listen for server ready in output as backup
-    devProcess.output.pipeTo(new WritableStream({
+    devServerOutputRef.current = {
       write(data: string) {
         console.log('Dev server output:', data);
         
@@ -1192,8 +1394,9 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
           }
         }
       }
-    }));
-  }, [basebaseToken, basebaseProject, addLog]);
+    };
+    await spawnDevServer();
+  }, [basebaseToken, basebaseProject, repoUrl, addLog, spawnDevServer]);
 
   const initializeEnvironment = useCallback(async (): Promise<void> => {
     console.log('=== DevEnvironment Initialization Start ===');
@@ -1219,15 +1422,52 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
       containerRef.current = container;
       console.log('WebContainer instance obtained successfully');
 
-      setLoadingMessage('Cloning repository...');
-      console.log('Starting repository clone...');
-      await cloneRepository(container);
-      console.log('Repository cloned successfully');
+      let saved: WorkspaceSnapshot | null = null;
+      try {
+        saved = await WorkspaceStore.load(storageKey);
+      } catch (loadError) {
+        console.warn('Could not read saved workspaces:', loadError);
+      }
+
+      if (saved) {
+        console.log('Restoring saved workspace:', storageKey);
+        try {
+          await restoreWorkspace(container, saved);
+        } catch (restoreError) {
+          // A snapshot we can't mount is no use; start over from a fresh clone
+          console.warn('Failed to restore saved workspace:', restoreError);
+          addLog(`Saved workspace couldn't be restored, cloning again: ${restoreError}`, 'warn');
+          await WorkspaceStore.remove(storageKey).catch(() => undefined);
+          saved = null;
+        }
+      }
 
-      setLoadingMessage('Installing dependencies...');
-      console.log('Starting dependency installation...');
-      await installDependencies(container);
-      console.log('Dependencies installed successfully');
+      if (saved) {
+        persistenceReadyRef.current = true;
+        if (!saved.dependencies) {
+          setLoadingMessage('Installing dependencies...');
+          await installDependencies();
+        }
+      } else {
+        setLoadingMessage('Cloning repository...');
+        console.log('Starting repository clone...');
+        const checkedOut = await cloneRepository(container);
+        console.log('Repository cloned successfully');
+
+        setLoadingMessage('Installing dependencies...');
+        console.log('Starting dependency installation...');
+        await installDependencies();
+        console.log('Dependencies installed successfully');
+
+        setLoadingMessage('Saving workspace...');
+        await saveWorkspace(container, checkedOut);
+      }
+
+      // Start watching only now so the install's churn isn't reported as changes
+      await ChangeTracker.start(container);
+      if (ProblemChecker.isWatchPreferred()) {
+        ProblemChecker.setWatching(true).catch((watchError) => console.error('Failed to start checking for problems:', watchError));
+      }
 
       setLoadingMessage('Starting development server...');
       console.log('Starting development server...');
@@ -1243,7 +1483,12 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
       console.error('Error stack:', error instanceof Error ? error.stack : 'No stack');
       setError(error instanceof Error ? error.message : String(error));
     }
-  }, [cloneRepository, installDependencies, startDevServer]);
+  }, [storageKey, addLog, restoreWorkspace, cloneRepository, installDependencies, saveWorkspace, startDevServer]);
+
+  useEffect(() => ChangeTracker.subscribe((nextChanges) => {
+    setChanges(nextChanges);
+    scheduleSave();
+  }), [scheduleSave]);
 
   useEffect(() => {
     if (initializedRef.current) {
@@ -1251,9 +1496,15 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
     }
     initializedRef.current = true;
 
-    // Add reload detection
+    // Warn before leaving while setting up, while edits are still being saved
+    // or while editor tabs have unsaved buffers; otherwise the saved workspace
+    // is restored on the next visit
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      console.warn('Page is about to reload/unload during WebContainer initialization!');
+      const hasUnsavedTabs = EditorTabs.getState().tabs.some(isDirty);
+      if (persistenceReadyRef.current && !pendingSaveRef.current && !hasUnsavedTabs) {
+        return;
+      }
+      console.warn('Page is about to reload/unload before the workspace was saved!');
       e.preventDefault();
       e.returnValue = '';
       return '';
@@ -1324,6 +1575,9 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
           <p className="text-gray-600 dark:text-gray-300 transition-colors">{loadingMessage}</p>
           <div className="mt-4 text-sm text-gray-500 dark:text-gray-400 transition-colors">
             Repository: {repoUrl.replace('https://github.com/', '')}
+            {pullNumber
+              ? ` #${pullNumber}`
+              : (repoRef || requestedRef) && ` @ ${repoRef ? formatRepoRef(repoRef) : requestedRef}`}
           </div>
         </div>
       </div>
@@ -1339,14 +1593,62 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
           <div className="text-sm text-gray-500 dark:text-gray-400 transition-colors">
             {repoUrl.replace('https://github.com/', '')}
           </div>
+          {repoRef && (
+            <span
+              className="text-xs font-mono text-gray-600 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded transition-colors"
+              title={`${repoRef.type} ${repoRef.name} (${repoRef.sha})`}
+            >
+              {repoRef.type === 'branch' ? '⎇' : repoRef.type === 'tag' ? '🏷' : '#'} {formatRepoRef(repoRef)}
+            </span>
+          )}
+          <PullRequestPicker
+            repoUrl={repoUrl}
+            githubToken={githubToken}
+            pullRequest={pullRequest}
+          />
+          {restoredAt && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 transition-colors">
+              Restored from {new Date(restoredAt).toLocaleString()} ·{' '}
+              <button
+                onClick={discardWorkspace}
+                className="text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                Discard and re-clone
+              </button>
+            </span>
+          )}
         </div>
         <div className="flex items-center space-x-3">
+          <button
+            onClick={() => setShowEditor(!showEditor)}
+            className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+              showEditor
+                ? 'bg-gray-700 hover:bg-gray-800 dark:bg-gray-500 dark:hover:bg-gray-600 text-white'
+                : 'bg-gray-500 hover:bg-gray-600 dark:bg-gray-600 dark:hover:bg-gray-700 text-white'
+            }`}
+          >
+            Editor
+          </button>
           <button
             onClick={() => setShowLogsModal(true)}
             className="bg-gray-500 hover:bg-gray-600 dark:bg-gray-600 dark:hover:bg-gray-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
           >
             Logs
           </button>
+          <button
+            onClick={() => {
+              setShowEditor(true);
+              setSidebarView('changes');
+            }}
+            className="relative bg-gray-500 hover:bg-gray-600 dark:bg-gray-600 dark:hover:bg-gray-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
+          >
+            Changes
+            {changes.length > 0 && (
+              <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 bg-brand-600 text-white text-xs leading-5 text-center rounded-full">
+                {changes.length}
+              </span>
+            )}
+          </button>
           <button
             onClick={() => setShowPublishModal(true)}
             className="bg-brand-600 hover:bg-brand-700 text-white px-4 py-2 rounded-md text-sm font-medium transition-colors"
@@ -1362,21 +1664,51 @@ NEXT_PUBLIC_BASEBASE_PROJECT=${basebaseProject}
         <div className="w-[425px] flex-shrink-0 bg-white dark:bg-gray-800 border-r dark:border-gray-700 h-full transition-colors">
           <AiChatPanel 
             webcontainer={containerRef.current}
+            initialMessages={restoredChat}
+            onMessagesChange={handleMessagesChange}
           />
         </div>
 
+        {/* Files and editor tabs - resizable against the preview */}
+        {showEditor && (
+          <>
+            <div
+              className="flex-shrink-0 bg-white dark:bg-gray-800 h-full transition-colors"
+              style={{ width: editorWidth, minWidth: MIN_EDITOR_WIDTH }}
+            >
+              <EditorWorkspace
+                changes={changes}
+                sidebarView={sidebarView}
+                onSidebarViewChange={setSidebarView}
+                onRestartDevServer={restartDevServer}
+                previewScript={previewScript}
+                onPreviewScriptChange={changePreviewScript}
+              />
+            </div>
+            <ResizeHandle onResize={resizeEditor} />
+          </>
+        )}
+
         {/* Preview Pane - Takes remaining space */}
-        <div className="flex-1 bg-white dark:bg-gray-800 h-full transition-colors">
-          <PreviewPane serverInfo={serverInfo} />
+        <div className="flex-1 min-w-0 bg-white dark:bg-gray-800 h-full transition-colors" style={{ minWidth: MIN_PREVIEW_WIDTH }}>
+          <PreviewPane
+            serverInfo={serverInfo}
+            devServerExit={devServerExit}
+            autoRestart={autoRestart}
+            onAutoRestartChange={changeAutoRestart}
+            onRestartDevServer={restartDevServer}
+          />
         </div>
       </div>
 
       {/* Publish Modal */}
-      {showPublishModal && (
+      {showPublishModal && repoRef && (
         <PublishModal
           repoUrl={repoUrl}
+          repoRef={repoRef}
+          pullRequest={pullRequest}
           githubToken={githubToken}
-          modifiedFiles={modifiedFiles}
+          changes={changes}
           onClose={() => setShowPublishModal(false)}
         />
       )}
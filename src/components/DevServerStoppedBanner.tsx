@@ -0,0 +1,95 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import WebContainerManager from '../utils/webcontainer-manager';
+import type { ProcessInfo } from '../utils/webcontainer-manager';
+import { stripAnsi } from '../utils/ansi';
+
+// How the dev server last stopped, and what happens next
+export interface DevServerExit {
+  processId: number;
+  exitCode: number;
+  // Stopped from the Processes panel rather than crashed, so it stays stopped
+  killed: boolean;
+  // Quick exits in a row; auto-restart gives up after too many
+  crashes: number;
+  gaveUp: boolean;
+  // When the automatic restart is due, null when none is scheduled
+  restartAt: number | null;
+}
+
+interface DevServerStoppedBannerProps {
+  exit: DevServerExit;
+  autoRestart: boolean;
+  onAutoRestartChange: (enabled: boolean) => void;
+  onRestart: () => void;
+}
+
+const OUTPUT_LINES = 12;
+
+const describeNextStep = (exit: DevServerExit, autoRestart: boolean, now: number): string => {
+  if (exit.restartAt !== null) {
+    return `Restarting in ${Math.max(0, Math.ceil((exit.restartAt - now) / 1000))}s…`;
+  }
+  if (exit.killed) return 'It was stopped by hand.';
+  if (exit.gaveUp) return `It crashed ${exit.crashes} times in a row, so it won't be restarted automatically.`;
+  return autoRestart ? '' : 'Auto-restart is off.';
+};
+
+const DevServerStoppedBanner: React.FC<DevServerStoppedBannerProps> = ({
+  exit,
+  autoRestart,
+  onAutoRestartChange,
+  onRestart,
+}) => {
+  const [process, setProcess] = useState<ProcessInfo | null>(null);
+  const [now, setNow] = useState<number>(Date.now());
+
+  // Output can still arrive after the exit, so follow the registry
+  useEffect(
+    () =>
+      WebContainerManager.subscribeProcesses((processes) =>
+        setProcess(processes.find((info) => info.id === exit.processId) ?? null)
+      ),
+    [exit.processId]
+  );
+
+  useEffect(() => {
+    if (exit.restartAt === null) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [exit.restartAt]);
+
+  const lastLines = useMemo(() => {
+    const lines = stripAnsi(process?.output ?? '').trimEnd().split('\n');
+    return lines.slice(-OUTPUT_LINES).join('\n');
+  }, [process]);
+
+  return (
+    <div className="flex-shrink-0 px-3 py-2 text-xs text-red-800 dark:text-red-300 bg-red-50 dark:bg-red-900/20 border-b dark:border-gray-700 transition-colors">
+      <div className="flex items-center space-x-2">
+        <span className="flex-1 min-w-0">
+          <span className="font-medium">
+            ⛔ Server stopped ({exit.killed ? 'killed' : `exit code ${exit.exitCode}`})
+          </span>{' '}
+          {describeNextStep(exit, autoRestart, now)}
+        </span>
+        <label className="flex items-center space-x-1 cursor-pointer" title="Start the dev server again when it crashes">
+          <input type="checkbox" checked={autoRestart} onChange={(e) => onAutoRestartChange(e.target.checked)} />
+          <span>Auto-restart</span>
+        </label>
+        <button
+          onClick={onRestart}
+          className="px-2 py-0.5 rounded bg-white dark:bg-gray-800 border border-red-300 dark:border-red-700 hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"
+        >
+          Restart now
+        </button>
+      </div>
+      {lastLines && (
+        <pre className="mt-2 max-h-40 overflow-auto font-mono whitespace-pre-wrap break-all text-gray-800 dark:text-gray-200">
+          {lastLines}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+export default DevServerStoppedBanner;
@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import type { Comparison } from '../utils/editor-tabs';
+import { languageForPath, registerLanguages } from '../utils/languages';
+import { watchEffectiveTheme } from '../utils/theme';
+
+interface DiffEditorPaneProps {
+  comparison: Comparison;
+  onClose: () => void;
+}
+
+const DiffEditorPane: React.FC<DiffEditorPaneProps> = ({ comparison, onClose }) => {
+  const [theme, setTheme] = useState<'light' | 'dark'>('light');
+
+  useEffect(() => watchEffectiveTheme(setTheme), []);
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="bg-gray-50 dark:bg-gray-900 px-4 py-1 border-b dark:border-gray-700 flex items-center justify-between transition-colors">
+        <span className="text-xs font-mono text-gray-600 dark:text-gray-400 truncate transition-colors" title={comparison.path}>
+          {comparison.path}: {comparison.originalLabel} ↔ {comparison.modifiedLabel}
+        </span>
+        <button
+          onClick={onClose}
+          className="flex-shrink-0 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+          title="Close comparison"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex-1 min-h-0">
+        <DiffEditor
+          height="100%"
+          language={languageForPath(comparison.path, comparison.modified)}
+          original={comparison.original}
+          modified={comparison.modified}
+          beforeMount={registerLanguages}
+          theme={theme === 'dark' ? 'vs-dark' : 'vs-light'}
+          options={{
+            readOnly: true,
+            renderSideBySide: true,
+            minimap: { enabled: false },
+            fontSize: 14,
+            scrollBeyondLastLine: false,
+            automaticLayout: true,
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default DiffEditorPane;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { toSideBySide } from '../utils/diff';
+import type { DiffHunk, DiffLine } from '../utils/diff';
+
+interface DiffViewProps {
+  hunks: DiffHunk[];
+  // When given, every hunk gets a checkbox to include or leave it out
+  isHunkSelected?: (index: number) => boolean;
+  onToggleHunk?: (index: number) => void;
+}
+
+const CELL_STYLES: Record<DiffLine['type'], string> = {
+  context: 'text-gray-800 dark:text-gray-200',
+  add: 'bg-green-50 dark:bg-green-900/30 text-green-900 dark:text-green-200',
+  remove: 'bg-red-50 dark:bg-red-900/30 text-red-900 dark:text-red-200',
+};
+
+const DiffCell: React.FC<{ line: DiffLine | null; side: 'old' | 'new' }> = ({ line, side }) => {
+  if (!line) {
+    return <td colSpan={2} className="bg-gray-50 dark:bg-gray-900/50 w-1/2"></td>;
+  }
+  const lineNumber = side === 'old' ? line.oldNumber : line.newNumber;
+  return (
+    <>
+      <td className="select-none text-right pr-2 pl-1 text-gray-400 dark:text-gray-500 align-top w-10">{lineNumber}</td>
+      <td className={`whitespace-pre-wrap break-all pr-2 align-top w-1/2 ${CELL_STYLES[line.type]}`}>
+        {line.text.replace(/\n$/, '')}
+      </td>
+    </>
+  );
+};
+
+const DiffView: React.FC<DiffViewProps> = ({ hunks, isHunkSelected, onToggleHunk }) => {
+  if (hunks.length === 0) {
+    return (
+      <div className="text-sm text-gray-500 dark:text-gray-400 p-4 transition-colors">
+        Contents are unchanged.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {hunks.map((hunk, index) => {
+        const selected = isHunkSelected ? isHunkSelected(index) : true;
+        return (
+          <div
+            key={`${hunk.oldStart}:${hunk.newStart}`}
+            className={`border dark:border-gray-700 rounded overflow-hidden transition-colors ${selected ? '' : 'opacity-50'}`}
+          >
+            <div className="flex items-center space-x-2 px-2 py-1 bg-gray-100 dark:bg-gray-700 text-xs font-mono text-gray-600 dark:text-gray-300 transition-colors">
+              {onToggleHunk && (
+                <input
+                  type="checkbox"
+                  checked={selected}
+                  onChange={() => onToggleHunk(index)}
+                  title="Include this change"
+                />
+              )}
+              <span>
+                @@ -{hunk.oldStart + 1},{hunk.oldLines} +{hunk.newStart + 1},{hunk.newLines} @@
+              </span>
+            </div>
+            <table className="w-full table-fixed font-mono text-xs">
+              <tbody>
+                {toSideBySide(hunk.lines).map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    <DiffCell line={row.left} side="old" />
+                    <DiffCell line={row.right} side="new" />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DiffView;
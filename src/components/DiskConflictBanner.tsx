@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ConflictResolution } from '../utils/editor-tabs';
+
+interface DiskConflictBannerProps {
+  path: string;
+  // The disk version is already being shown next to the buffer
+  comparing: boolean;
+  onResolve: (resolution: ConflictResolution) => void;
+  onCompare: () => void;
+}
+
+const buttonClassName =
+  'px-2 py-0.5 rounded bg-white dark:bg-gray-800 border border-yellow-300 dark:border-yellow-700 hover:bg-yellow-100 dark:hover:bg-yellow-900/40 transition-colors';
+
+const DiskConflictBanner: React.FC<DiskConflictBannerProps> = ({ path, comparing, onResolve, onCompare }) => (
+  <div className="flex items-center px-3 py-1.5 space-x-2 text-xs text-yellow-800 dark:text-yellow-300 bg-yellow-50 dark:bg-yellow-900/20 border-b dark:border-gray-700 transition-colors">
+    <span className="flex-1 min-w-0 truncate" title={path}>
+      ⚠️ {path} changed on disk while you had unsaved changes. Saving won't overwrite it until you choose.
+    </span>
+    <button onClick={() => onResolve('mine')} className={buttonClassName} title="Save your version over the one on disk">
+      Keep mine
+    </button>
+    <button onClick={() => onResolve('theirs')} className={buttonClassName} title="Discard your changes and load the version on disk">
+      Take theirs
+    </button>
+    {!comparing && (
+      <button onClick={onCompare} className={buttonClassName} title="Show the version on disk next to yours">
+        Compare
+      </button>
+    )}
+  </div>
+);
+
+export default DiskConflictBanner;
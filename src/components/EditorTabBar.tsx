@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { hasDiskConflict, isDirty } from '../utils/editor-tabs';
+import type { EditorTab } from '../utils/editor-tabs';
+import { fileName } from '../utils/file-tree';
+
+interface EditorTabBarProps {
+  tabs: EditorTab[];
+  activePath: string | null;
+  onSelect: (path: string) => void;
+  onClose: (path: string) => void;
+  onTogglePin: (path: string) => void;
+  onMove: (path: string, targetPath: string) => void;
+}
+
+const EditorTabBar: React.FC<EditorTabBarProps> = ({ tabs, activePath, onSelect, onClose, onTogglePin, onMove }) => {
+  const [draggedPath, setDraggedPath] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  if (tabs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex overflow-x-auto bg-gray-100 dark:bg-gray-900 border-b dark:border-gray-700 transition-colors">
+      {tabs.map((tab) => {
+        const isActive = tab.path === activePath;
+        const dirty = isDirty(tab);
+        return (
+          <div
+            key={tab.path}
+            draggable
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedPath(tab.path);
+            }}
+            onDragOver={(e) => {
+              if (!draggedPath) return;
+              e.preventDefault();
+              setDropTarget(tab.path);
+            }}
+            onDragLeave={() => setDropTarget((current) => (current === tab.path ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (draggedPath) {
+                onMove(draggedPath, tab.path);
+              }
+              setDraggedPath(null);
+              setDropTarget(null);
+            }}
+            onDragEnd={() => {
+              setDraggedPath(null);
+              setDropTarget(null);
+            }}
+            onClick={() => onSelect(tab.path)}
+            // Middle click closes, like in browsers
+            onAuxClick={(e) => {
+              if (e.button === 1 && !tab.pinned) onClose(tab.path);
+            }}
+            onDoubleClick={() => onTogglePin(tab.path)}
+            title={`${tab.path}${tab.pinned ? ' (pinned, double-click to unpin)' : ' (double-click to pin)'}`}
+            className={`group flex items-center flex-shrink-0 max-w-[14rem] px-3 py-1.5 text-sm border-r dark:border-gray-700 cursor-pointer select-none transition-colors ${
+              isActive
+                ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white border-t-2 border-t-brand-600'
+                : 'text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800 border-t-2 border-t-transparent'
+            } ${dropTarget === tab.path && draggedPath !== tab.path ? 'bg-brand-50 dark:bg-brand-900/30' : ''}`}
+          >
+            {tab.pinned && <span className="mr-1 text-xs">📌</span>}
+            <span className={`truncate ${tab.binary ? 'italic' : ''}`}>{fileName(tab.path)}</span>
+            {hasDiskConflict(tab) && (
+              <span className="ml-1 text-xs" title="Changed on disk while it had unsaved changes">
+                ⚠️
+              </span>
+            )}
+            {tab.pinned ? (
+              dirty && <span className="ml-2 text-brand-600 dark:text-brand-400" title="Unsaved changes">●</span>
+            ) : (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onClose(tab.path);
+                }}
+                className="relative ml-2 w-4 h-4 flex items-center justify-center rounded hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                title={dirty ? 'Unsaved changes - close' : 'Close'}
+              >
+                {/* A dirty tab shows a dot that turns into the close button on hover */}
+                {dirty && <span className="text-brand-600 dark:text-brand-400 group-hover:hidden">●</span>}
+                <span className={`text-xs leading-none ${dirty ? 'hidden group-hover:inline' : isActive ? '' : 'invisible group-hover:visible'}`}>✕</span>
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EditorTabBar;
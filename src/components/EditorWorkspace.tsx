@@ -0,0 +1,533 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import WebContainerManager from '../utils/webcontainer-manager';
+import { EditorTabs, hasDiskConflict, isDirty } from '../utils/editor-tabs';
+import type { ConflictResolution, EditorPosition, EditorTabsState } from '../utils/editor-tabs';
+import { fileName, findNode, joinPath, parentPath } from '../utils/file-tree';
+import type { FileNode } from '../utils/file-tree';
+import { ChangeTracker } from '../utils/change-tracker';
+import type { FileChange } from '../utils/change-tracker';
+import type { ScriptRef } from '../utils/package-scripts';
+import { ProblemChecker } from '../utils/problems';
+import type { Problem, ProblemsState } from '../utils/problems';
+import { decodeText } from '../utils/diff';
+import FileExplorer from './FileExplorer';
+import type { FileOperations } from './FileExplorer';
+import ChangesList from './ChangesList';
+import EditorTabBar from './EditorTabBar';
+import CodeEditor from './CodeEditor';
+import DiffEditorPane from './DiffEditorPane';
+import DiskConflictBanner from './DiskConflictBanner';
+import ProblemsPanel from './ProblemsPanel';
+import ProcessesPanel from './ProcessesPanel';
+import ScriptsPanel from './ScriptsPanel';
+import SearchPanel from './SearchPanel';
+import TerminalPanel from './TerminalPanel';
+import ResizeHandle from './ResizeHandle';
+
+export type SidebarView = 'files' | 'search' | 'changes';
+
+type PanelView = 'problems' | 'terminal' | 'scripts' | 'processes';
+
+interface EditorWorkspaceProps {
+  changes: FileChange[];
+  sidebarView: SidebarView;
+  onSidebarViewChange: (view: SidebarView) => void;
+  onRestartDevServer: () => void;
+  previewScript: ScriptRef | null;
+  onPreviewScriptChange: (ref: ScriptRef) => void;
+}
+
+const EXPLORER_WIDTH_KEY = 'basebase_explorer_width';
+const MIN_EXPLORER_WIDTH = 160;
+const MAX_EXPLORER_WIDTH = 480;
+const PANEL_HEIGHT_KEY = 'basebase_panel_height';
+const PANEL_OPEN_KEY = 'basebase_panel_open';
+const PANEL_VIEW_KEY = 'basebase_panel_view';
+const MIN_PANEL_HEIGHT = 80;
+const MAX_PANEL_HEIGHT = 600;
+// How long files touched outside the editor stay highlighted in the tree
+const HIGHLIGHT_DURATION_MS = 2500;
+
+const SIDEBAR_VIEW_LABELS: Record<SidebarView, string> = { files: 'Files', search: 'Search', changes: 'Changes' };
+const PANEL_VIEW_LABELS: Record<PanelView, string> = {
+  problems: 'Problems',
+  terminal: 'Terminal',
+  scripts: 'Scripts',
+  processes: 'Processes',
+};
+
+const clampExplorerWidth = (width: number): number =>
+  Math.min(MAX_EXPLORER_WIDTH, Math.max(MIN_EXPLORER_WIDTH, width));
+
+const clampPanelHeight = (height: number): number =>
+  Math.min(MAX_PANEL_HEIGHT, Math.max(MIN_PANEL_HEIGHT, height));
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+// "name copy.ext", then "name copy 2.ext" and so on
+const copyName = (name: string, attempt: number): string => {
+  const dot = name.lastIndexOf('.');
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+  return `${base} copy${attempt > 1 ? ` ${attempt}` : ''}${extension}`;
+};
+
+const downloadBlob = (content: Uint8Array, name: string): void => {
+  const url = URL.createObjectURL(new Blob([content]));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const EditorWorkspace: React.FC<EditorWorkspaceProps> = ({
+  changes,
+  sidebarView,
+  onSidebarViewChange,
+  onRestartDevServer,
+  previewScript,
+  onPreviewScriptChange,
+}) => {
+  const [files, setFiles] = useState<FileNode[]>([]);
+  const [highlightedPaths, setHighlightedPaths] = useState<Set<string>>(new Set());
+  const [tabsState, setTabsState] = useState<EditorTabsState>(EditorTabs.getState());
+  const [explorerWidth, setExplorerWidth] = useState<number>(() =>
+    clampExplorerWidth(Number(localStorage.getItem(EXPLORER_WIDTH_KEY)) || 240)
+  );
+
+  const [problemsState, setProblemsState] = useState<ProblemsState>(ProblemChecker.getState());
+  const [panelOpen, setPanelOpen] = useState<boolean>(() => localStorage.getItem(PANEL_OPEN_KEY) === 'true');
+  const [panelHeight, setPanelHeight] = useState<number>(() =>
+    clampPanelHeight(Number(localStorage.getItem(PANEL_HEIGHT_KEY)) || 200)
+  );
+  const [panelView, setPanelView] = useState<PanelView>(() => {
+    const saved = localStorage.getItem(PANEL_VIEW_KEY);
+    return saved && saved in PANEL_VIEW_LABELS ? (saved as PanelView) : 'problems';
+  });
+  // Terminals stay mounted once started, so their shells survive hiding the panel
+  const [terminalStarted, setTerminalStarted] = useState<boolean>(false);
+  // Likewise the scripts panel, so its output channels outlive switching views
+  const [scriptsStarted, setScriptsStarted] = useState<boolean>(false);
+
+  useEffect(() => EditorTabs.subscribe(setTabsState), []);
+  useEffect(() => ProblemChecker.subscribe(setProblemsState), []);
+
+  useEffect(() => {
+    localStorage.setItem(EXPLORER_WIDTH_KEY, String(explorerWidth));
+  }, [explorerWidth]);
+
+  useEffect(() => {
+    localStorage.setItem(PANEL_OPEN_KEY, String(panelOpen));
+    localStorage.setItem(PANEL_HEIGHT_KEY, String(panelHeight));
+    localStorage.setItem(PANEL_VIEW_KEY, panelView);
+  }, [panelOpen, panelHeight, panelView]);
+
+  useEffect(() => {
+    if (panelOpen && panelView === 'terminal') {
+      setTerminalStarted(true);
+    }
+    if (panelOpen && panelView === 'scripts') {
+      setScriptsStarted(true);
+    }
+  }, [panelOpen, panelView]);
+
+  // Picking the view that's showing hides the panel
+  const togglePanelView = useCallback(
+    (view: PanelView): void => {
+      setPanelOpen((open) => !(open && panelView === view));
+      setPanelView(view);
+    },
+    [panelView]
+  );
+
+  // Tree updates run one at a time, each starting from the latest tree
+  const filesRef = useRef<FileNode[]>([]);
+  const treeUpdatesRef = useRef<Promise<void>>(Promise.resolve());
+  const highlightTimeoutsRef = useRef<Set<number>>(new Set());
+
+  const updateTree = useCallback((update: (files: FileNode[]) => Promise<FileNode[]>): Promise<void> => {
+    treeUpdatesRef.current = treeUpdatesRef.current
+      .then(async () => {
+        filesRef.current = await update(filesRef.current);
+        setFiles(filesRef.current);
+      })
+      .catch((error) => console.error('Failed to read the file tree:', error));
+    return treeUpdatesRef.current;
+  }, []);
+
+  const refreshFiles = useCallback(
+    (): Promise<void> => updateTree(() => WebContainerManager.getFileTree()),
+    [updateTree]
+  );
+
+  const highlight = useCallback((paths: string[]): void => {
+    setHighlightedPaths((current) => new Set([...current, ...paths]));
+    const timeout = window.setTimeout(() => {
+      highlightTimeoutsRef.current.delete(timeout);
+      setHighlightedPaths((current) => new Set([...current].filter((path) => !paths.includes(path))));
+    }, HIGHLIGHT_DURATION_MS);
+    highlightTimeoutsRef.current.add(timeout);
+  }, []);
+
+  useEffect(() => {
+    refreshFiles();
+
+    // Follow whatever changes the project: the assistant, npm, code generators
+    let stopWatching: (() => void) | null = null;
+    let cancelled = false;
+    WebContainerManager.watchFiles(async (paths) => {
+      await updateTree((files) => WebContainerManager.updateFileTree(files, paths));
+      highlight(paths.filter((path) => findNode(filesRef.current, path)));
+    }).then((stop) => {
+      if (cancelled) {
+        stop();
+      } else {
+        stopWatching = stop;
+      }
+    });
+
+    const highlightTimeouts = highlightTimeoutsRef.current;
+    return () => {
+      cancelled = true;
+      stopWatching?.();
+      highlightTimeouts.forEach((timeout) => clearTimeout(timeout));
+      highlightTimeouts.clear();
+    };
+  }, [refreshFiles, updateTree, highlight]);
+
+  // Ctrl/Cmd+Shift+F searches the project and Ctrl+` toggles the terminal, like in VS Code
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.ctrlKey && e.key === '`') {
+        e.preventDefault();
+        togglePanelView('terminal');
+      } else if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        onSidebarViewChange('search');
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onSidebarViewChange, togglePanelView]);
+
+  const openFile = async (path: string, position?: EditorPosition): Promise<void> => {
+    try {
+      await EditorTabs.open(path, position);
+    } catch (error) {
+      console.error(`Failed to open ${path}:`, error);
+      alert(`Couldn't open ${path}: ${describeError(error)}`);
+    }
+  };
+
+  const openDiff = (change: FileChange): void => {
+    const original = decodeText(change.original);
+    const modified = decodeText(change.content);
+    if (original === null || modified === null) {
+      alert(`${change.path} is a binary file, so there's no diff to show.`);
+      return;
+    }
+    EditorTabs.compare({
+      path: change.path,
+      originalLabel: change.oldPath ? `Cloned (${change.oldPath})` : 'Cloned',
+      modifiedLabel: change.status === 'deleted' ? 'Deleted' : 'Workspace',
+      original,
+      modified,
+    });
+  };
+
+  const revertChange = async (change: FileChange): Promise<void> => {
+    if (!window.confirm(`Revert ${change.path} to the version that was cloned? Your changes to it will be lost.`)) {
+      return;
+    }
+    try {
+      await ChangeTracker.revert(change);
+    } catch (err) {
+      console.error('Failed to revert file:', err);
+      alert(`Failed to revert ${change.path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const saveFile = useCallback(async (path: string): Promise<void> => {
+    try {
+      await EditorTabs.save(path);
+    } catch (error) {
+      console.error(`Failed to save ${path}:`, error);
+      alert(`Couldn't save ${path}: ${describeError(error)}`);
+    }
+  }, []);
+
+  const resolveConflict = async (path: string, resolution: ConflictResolution): Promise<void> => {
+    try {
+      await EditorTabs.resolveConflict(path, resolution);
+    } catch (error) {
+      console.error(`Failed to resolve the conflict in ${path}:`, error);
+      alert(`Couldn't save ${path}: ${describeError(error)}`);
+    }
+  };
+
+  const closeTab = (path: string): void => {
+    const tab = EditorTabs.getTab(path);
+    if (tab && isDirty(tab) && !confirm(`${path} has unsaved changes. Close it and discard them?`)) {
+      return;
+    }
+    EditorTabs.close(path);
+  };
+
+  // Runs a file operation and reports failures; the watcher updates the tree
+  const runOperation = (description: string, action: () => Promise<void>): Promise<void> =>
+    action().catch((error) => {
+      console.error(`Failed to ${description}:`, error);
+      alert(`Couldn't ${description}: ${describeError(error)}`);
+    });
+
+  const ensureAvailable = async (path: string): Promise<void> => {
+    if (await WebContainerManager.exists(path)) {
+      throw new Error(`${path} already exists`);
+    }
+  };
+
+  const operations: FileOperations = {
+    create: (directory, name, type) =>
+      runOperation(`create ${name}`, async () => {
+        const path = joinPath(directory, name.replace(/^\/+|\/+$/g, ''));
+        await ensureAvailable(path);
+        if (type === 'directory') {
+          await WebContainerManager.createDirectory(path);
+          return;
+        }
+        // Names like "components/Button.tsx" create the folders on the way
+        if (parentPath(path)) {
+          await WebContainerManager.createDirectory(parentPath(path));
+        }
+        await WebContainerManager.writeFile(path, '');
+        await EditorTabs.open(path);
+      }),
+
+    rename: (file, newName) =>
+      runOperation(`rename ${file.path}`, async () => {
+        if (newName.includes('/')) {
+          throw new Error('Names can\'t contain "/"; drag the file to move it');
+        }
+        const path = joinPath(parentPath(file.path), newName);
+        await ensureAvailable(path);
+        await WebContainerManager.movePath(file.path, path);
+        EditorTabs.renamePath(file.path, path);
+      }),
+
+    move: (path, directory) =>
+      runOperation(`move ${path}`, async () => {
+        const target = joinPath(directory, fileName(path));
+        await ensureAvailable(target);
+        await WebContainerManager.movePath(path, target);
+        EditorTabs.renamePath(path, target);
+      }),
+
+    remove: async (file) => {
+      const openDirty = EditorTabs.getState().tabs.some(
+        (tab) => (tab.path === file.path || tab.path.startsWith(`${file.path}/`)) && isDirty(tab)
+      );
+      const message = file.type === 'directory'
+        ? `Delete ${file.path} and everything in it?`
+        : `Delete ${file.path}?`;
+      if (!confirm(openDirty ? `${message} Unsaved edits in open tabs will be lost.` : message)) {
+        return;
+      }
+      await runOperation(`delete ${file.path}`, async () => {
+        await WebContainerManager.deletePath(file.path);
+        EditorTabs.closePath(file.path);
+      });
+    },
+
+    duplicate: (file) =>
+      runOperation(`duplicate ${file.path}`, async () => {
+        const directory = parentPath(file.path);
+        let attempt = 1;
+        while (await WebContainerManager.exists(joinPath(directory, copyName(file.name, attempt)))) {
+          attempt++;
+        }
+        await WebContainerManager.copyPath(file.path, joinPath(directory, copyName(file.name, attempt)));
+      }),
+
+    upload: (directory, files) =>
+      runOperation(`upload to ${directory || 'the project root'}`, async () => {
+        for (const file of files) {
+          const path = joinPath(directory, file.path);
+          if (await WebContainerManager.isDirectory(path)) {
+            throw new Error(`${path} is a folder`);
+          }
+          if (await WebContainerManager.exists(path) && !confirm(`${path} already exists. Replace it?`)) {
+            continue;
+          }
+          if (parentPath(path)) {
+            await WebContainerManager.createDirectory(parentPath(path));
+          }
+          await WebContainerManager.writeFile(path, file.content);
+        }
+        console.log(`📤 Uploaded ${files.length} file(s) to ${directory || '/'}`);
+      }),
+
+    download: async (file) => {
+      try {
+        const path = file?.path ?? '.';
+        const content = await WebContainerManager.exportPath(path);
+        const isFolder = !file || file.type === 'directory';
+        downloadBlob(content, isFolder ? `${file?.name ?? 'project'}.zip` : file.name);
+      } catch (error) {
+        console.error('Failed to download:', error);
+        alert(`Couldn't download ${file?.path ?? 'the project'}: ${describeError(error)}`);
+      }
+    },
+  };
+
+  const handleRevealed = useCallback(() => EditorTabs.clearReveal(), []);
+
+  const openProblem = (problem: Problem): void => {
+    openFile(problem.path, { line: problem.line, column: problem.column });
+  };
+
+  const errorCount = problemsState.problems.filter((problem) => problem.severity === 'error').length;
+  const warningCount = problemsState.problems.filter((problem) => problem.severity === 'warning').length;
+
+  const activeTab = tabsState.tabs.find((tab) => tab.path === tabsState.activePath) ?? null;
+
+  return (
+    <div className="flex h-full">
+      <div className="flex-shrink-0 h-full flex flex-col" style={{ width: explorerWidth }}>
+        <div className="flex border-b dark:border-gray-700 bg-gray-100 dark:bg-gray-900 transition-colors">
+          {(['files', 'search', 'changes'] as const).map((view) => (
+            <button
+              key={view}
+              onClick={() => onSidebarViewChange(view)}
+              className={`flex-1 px-3 py-1.5 text-xs font-medium uppercase tracking-wide transition-colors ${
+                sidebarView === view
+                  ? 'bg-white dark:bg-gray-800 text-gray-900 dark:text-white'
+                  : 'text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+              }`}
+            >
+              {SIDEBAR_VIEW_LABELS[view]}
+              {view === 'changes' && changes.length > 0 && ` (${changes.length})`}
+            </button>
+          ))}
+        </div>
+        {/* Kept mounted while hidden so the query and results survive switching views */}
+        <div className={`flex-1 min-h-0 ${sidebarView === 'search' ? '' : 'hidden'}`}>
+          <SearchPanel active={sidebarView === 'search'} onOpenMatch={openFile} />
+        </div>
+        <div className={`flex-1 min-h-0 ${sidebarView === 'search' ? 'hidden' : ''}`}>
+          {sidebarView === 'files' ? (
+            <FileExplorer
+              files={files}
+              onFileSelect={(file) => openFile(file.path)}
+              selectedPath={tabsState.activePath}
+              onRefresh={refreshFiles}
+              operations={operations}
+              highlightedPaths={highlightedPaths}
+              changes={changes}
+              onOpenDiff={openDiff}
+              onRevert={revertChange}
+            />
+          ) : (
+            <ChangesList changes={changes} onOpenFile={openFile} onOpenDiff={openDiff} onRevert={revertChange} />
+          )}
+        </div>
+      </div>
+
+      <ResizeHandle onResize={(delta) => setExplorerWidth((width) => clampExplorerWidth(width + delta))} />
+
+      <div className="flex-1 min-w-0 h-full flex flex-col">
+        <EditorTabBar
+          tabs={tabsState.tabs}
+          activePath={tabsState.activePath}
+          onSelect={(path) => EditorTabs.activate(path)}
+          onClose={closeTab}
+          onTogglePin={(path) => EditorTabs.togglePin(path)}
+          onMove={(path, targetPath) => EditorTabs.move(path, targetPath)}
+        />
+        {activeTab && hasDiskConflict(activeTab) && (
+          <DiskConflictBanner
+            path={activeTab.path}
+            comparing={tabsState.comparison?.path === activeTab.path}
+            onResolve={(resolution) => resolveConflict(activeTab.path, resolution)}
+            onCompare={() => EditorTabs.compareWithDisk(activeTab.path)}
+          />
+        )}
+        {tabsState.comparison && (
+          <div className="flex-1 min-h-0">
+            <DiffEditorPane comparison={tabsState.comparison} onClose={() => EditorTabs.closeComparison()} />
+          </div>
+        )}
+        {/* Hidden rather than unmounted under a comparison, so the editor keeps its state */}
+        <div className={`flex-1 min-h-0 ${tabsState.comparison ? 'hidden' : ''}`}>
+          <CodeEditor
+            tab={activeTab}
+            reveal={tabsState.reveal}
+            onChange={(path, content) => EditorTabs.update(path, content)}
+            onSave={saveFile}
+            onLanguageChange={(path, language) => EditorTabs.setLanguage(path, language)}
+            onRevealed={handleRevealed}
+          />
+        </div>
+
+        {panelOpen && (
+          <ResizeHandle
+            direction="vertical"
+            onResize={(delta) => setPanelHeight((height) => clampPanelHeight(height - delta))}
+          />
+        )}
+        <div className="flex-shrink-0 flex flex-col" style={panelOpen ? { height: panelHeight } : undefined}>
+          <div className="flex items-center border-t dark:border-gray-700 bg-gray-100 dark:bg-gray-900 transition-colors">
+            <button
+              onClick={() => setPanelOpen((open) => !open)}
+              className="pl-3 pr-1 py-1 text-xs text-gray-600 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white transition-colors"
+              title={panelOpen ? 'Hide panel' : 'Show panel'}
+            >
+              {panelOpen ? '▾' : '▸'}
+            </button>
+            {(Object.keys(PANEL_VIEW_LABELS) as PanelView[]).map((view) => (
+              <button
+                key={view}
+                onClick={() => togglePanelView(view)}
+                className={`px-2 py-1 text-xs font-medium uppercase tracking-wide transition-colors ${
+                  panelOpen && panelView === view
+                    ? 'text-gray-900 dark:text-white'
+                    : 'text-gray-500 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white'
+                }`}
+                title={view === 'terminal' ? 'Terminal (Ctrl+`)' : undefined}
+              >
+                {PANEL_VIEW_LABELS[view]}
+                {view === 'problems' && errorCount > 0 && (
+                  <span className="ml-2 normal-case text-red-600 dark:text-red-400">⛔ {errorCount}</span>
+                )}
+                {view === 'problems' && warningCount > 0 && (
+                  <span className="ml-2 normal-case text-yellow-600 dark:text-yellow-400">⚠️ {warningCount}</span>
+                )}
+              </button>
+            ))}
+          </div>
+          {panelOpen && panelView === 'problems' && (
+            <div className="flex-1 min-h-0">
+              <ProblemsPanel state={problemsState} onOpen={openProblem} />
+            </div>
+          )}
+          {panelOpen && panelView === 'processes' && (
+            <div className="flex-1 min-h-0">
+              <ProcessesPanel onRestartDevServer={onRestartDevServer} />
+            </div>
+          )}
+          {scriptsStarted && (
+            <div className={`flex-1 min-h-0 ${panelOpen && panelView === 'scripts' ? '' : 'hidden'}`}>
+              <ScriptsPanel previewScript={previewScript} onPreviewScriptChange={onPreviewScriptChange} />
+            </div>
+          )}
+          {terminalStarted && (
+            <div className={`flex-1 min-h-0 ${panelOpen && panelView === 'terminal' ? '' : 'hidden'}`}>
+              <TerminalPanel active={panelOpen && panelView === 'terminal'} onOpenFile={openFile} />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EditorWorkspace;
@@ -1,119 +1,887 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { ChangeStatus, FileChange } from '../utils/change-tracker';
+import { joinPath, parentPath } from '../utils/file-tree';
+import type { FileNode } from '../utils/file-tree';
+import { fuzzyMatch } from '../utils/fuzzy';
+import type { FuzzyMatch } from '../utils/fuzzy';
+import ChangeStatusBadge from './ChangeStatusBadge';
 
-interface FileNode {
-  name: string;
-  type: 'file' | 'directory';
+export interface UploadedFile {
+  // Relative to the folder the files were dropped on
   path: string;
-  children?: FileNode[];
-  content?: string;
+  content: Uint8Array;
+}
+
+// What the explorer can do to the filesystem; directories are given as paths, "" being the root
+export interface FileOperations {
+  create: (directory: string, name: string, type: FileNode['type']) => Promise<void>;
+  rename: (file: FileNode, newName: string) => Promise<void>;
+  move: (path: string, directory: string) => Promise<void>;
+  remove: (file: FileNode) => Promise<void>;
+  duplicate: (file: FileNode) => Promise<void>;
+  upload: (directory: string, files: UploadedFile[]) => Promise<void>;
+  download: (file: FileNode | null) => Promise<void>;
 }
 
 interface FileExplorerProps {
   files: FileNode[];
   onFileSelect: (file: FileNode) => void;
-  selectedFile: FileNode | null;
+  selectedPath: string | null;
+  onRefresh?: () => void;
+  operations?: FileOperations;
+  // Recently changed paths, flashed so edits made elsewhere are easy to spot
+  highlightedPaths?: Set<string>;
+  // Changes since the clone, shown as decorations on files and the folders containing them
+  changes?: FileChange[];
+  // Deleted files have no node, so their rows open a diff or revert instead
+  onOpenDiff?: (change: FileChange) => void;
+  onRevert?: (change: FileChange) => void;
+}
+
+type EditingState =
+  | { kind: 'create'; type: FileNode['type']; directory: string }
+  | { kind: 'rename'; path: string };
+
+interface ContextMenuState {
+  x: number;
+  y: number;
+  // null when opened on the empty space below the tree
+  file: FileNode | null;
+}
+
+type TreeRow =
+  | { kind: 'node'; file: FileNode; depth: number }
+  // The name input for a new file or folder
+  | { kind: 'create'; type: FileNode['type']; depth: number }
+  // A deleted file, named relative to the folder it's listed in
+  | { kind: 'deleted'; change: FileChange; name: string; depth: number };
+
+// Rows have a fixed height so the list can be windowed without measuring them
+const ROW_HEIGHT = 28;
+const OVERSCAN_ROWS = 10;
+// Scroll target standing for the new file input rather than a path
+const CREATE_ROW = '\0create';
+
+// Passed down the tree so every row can reach the explorer's state
+interface TreeState {
+  selectedPath: string | null;
+  focusedPath: string | null;
+  expandedPaths: Set<string>;
+  editing: EditingState | null;
+  dropTarget: string | null;
+  // Highlighted paths plus the folders containing them
+  highlighted: Set<string>;
+  statuses: Map<string, FileChange>;
+  folderStatuses: Map<string, ChangeStatus>;
+  onClick: (file: FileNode) => void;
+  onContextMenu: (e: React.MouseEvent, file: FileNode | null) => void;
+  onDragStart: (e: React.DragEvent, file: FileNode) => void;
+  onDragOver: (e: React.DragEvent, directory: string) => void;
+  onDrop: (e: React.DragEvent, directory: string) => void;
+  onSubmitName: (name: string) => void;
+  onCancelEditing: () => void;
+}
+
+const STATUS_NAME_COLORS: Record<ChangeStatus, string> = {
+  added: 'text-green-700 dark:text-green-400',
+  modified: 'text-yellow-700 dark:text-yellow-400',
+  deleted: 'text-red-600 dark:text-red-400',
+  renamed: 'text-blue-700 dark:text-blue-400',
+};
+
+// Marks drags that started on a tree row, as opposed to files from the desktop
+const TREE_DRAG_TYPE = 'application/x-basebase-path';
+
+const readEntry = async (entry: FileSystemEntry, prefix: string): Promise<UploadedFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path: prefix + entry.name, content: new Uint8Array(await file.arrayBuffer()) }];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // Entries come in batches until an empty one
+    for (;;) {
+      const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+      if (batch.length === 0) break;
+      children.push(...batch);
+    }
+    const nested = await Promise.all(children.map((child) => readEntry(child, `${prefix}${entry.name}/`)));
+    return nested.flat();
+  }
+  return [];
+};
+
+// Reads files and whole folders dropped from the desktop
+const readDroppedFiles = async (dataTransfer: DataTransfer): Promise<UploadedFile[]> => {
+  // Entries have to be taken before the drop event returns
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length > 0) {
+    return (await Promise.all(entries.map((entry) => readEntry(entry, '')))).flat();
+  }
+  return Promise.all(
+    Array.from(dataTransfer.files).map(async (file) => ({ path: file.name, content: new Uint8Array(await file.arrayBuffer()) }))
+  );
+};
+
+const getFileIcon = (fileName: string, type: 'file' | 'directory', isExpanded: boolean): string => {
+  if (type === 'directory') {
+    return isExpanded ? '📂' : '📁';
+  }
+
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'ts':
+    case 'tsx':
+      return '🔷';
+    case 'js':
+    case 'jsx':
+      return '🟨';
+    case 'json':
+      return '📋';
+    case 'css':
+      return '🎨';
+    case 'html':
+      return '🌐';
+    case 'md':
+      return '📝';
+    default:
+      return '📄';
+  }
+};
+
+interface NameInputProps {
+  initialName: string;
+  icon: string;
+  depth: number;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
 }
 
-interface FileItemProps {
+const NameInput: React.FC<NameInputProps> = ({ initialName, icon, depth, onSubmit, onCancel }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const doneRef = useRef<boolean>(false);
+
+  useEffect(() => {
+    const input = inputRef.current;
+    if (!input) return;
+    input.focus();
+    // Select the name without its extension, like renaming in a file manager
+    const dot = initialName.lastIndexOf('.');
+    input.setSelectionRange(0, dot > 0 ? dot : initialName.length);
+  }, [initialName]);
+
+  const finish = (submit: boolean): void => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    const name = inputRef.current?.value.trim() ?? '';
+    if (submit && name && name !== initialName) {
+      onSubmit(name);
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="flex items-center h-7 px-2" style={{ paddingLeft: `${depth * 20 + 8}px` }}>
+      <span className="mr-2">{icon}</span>
+      <input
+        ref={inputRef}
+        defaultValue={initialName}
+        onKeyDown={(e) => {
+          e.stopPropagation();
+          if (e.key === 'Enter') finish(true);
+          if (e.key === 'Escape') finish(false);
+        }}
+        onBlur={() => finish(true)}
+        className="flex-1 min-w-0 px-1 text-sm border border-brand-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none"
+      />
+    </div>
+  );
+};
+
+interface FileRowProps {
   file: FileNode;
-  onFileSelect: (file: FileNode) => void;
-  selectedFile: FileNode | null;
+  tree: TreeState;
+  depth: number;
+}
+
+const FileRow: React.FC<FileRowProps> = ({ file, tree, depth }) => {
+  const isExpanded = tree.expandedPaths.has(file.path);
+  const isSelected = tree.selectedPath === file.path;
+  const isFocused = tree.focusedPath === file.path;
+  // An open folder leaves the highlight to the rows inside it
+  const isHighlighted = tree.highlighted.has(file.path) && !(file.type === 'directory' && isExpanded);
+  const change = tree.statuses.get(file.path);
+  const folderStatus = tree.folderStatuses.get(file.path);
+  const status = change?.status ?? folderStatus;
+  // Dropping on a file puts things next to it
+  const dropDirectory = file.type === 'directory' ? file.path : parentPath(file.path);
+
+  if (tree.editing?.kind === 'rename' && tree.editing.path === file.path) {
+    return (
+      <NameInput
+        initialName={file.name}
+        icon={getFileIcon(file.name, file.type, isExpanded)}
+        depth={depth}
+        onSubmit={tree.onSubmitName}
+        onCancel={tree.onCancelEditing}
+      />
+    );
+  }
+
+  return (
+    <div
+      onClick={() => tree.onClick(file)}
+      onContextMenu={(e) => tree.onContextMenu(e, file)}
+      draggable
+      onDragStart={(e) => tree.onDragStart(e, file)}
+      onDragOver={(e) => tree.onDragOver(e, dropDirectory)}
+      onDrop={(e) => tree.onDrop(e, dropDirectory)}
+      className={`flex items-center h-7 px-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
+        isSelected ? 'bg-blue-100 dark:bg-brand-900/30 text-blue-700 dark:text-brand-300' : 'text-gray-900 dark:text-gray-100'
+      } ${isFocused ? 'ring-1 ring-inset ring-brand-500' : ''} ${isHighlighted ? 'bg-yellow-100 dark:bg-yellow-900/40' : ''} ${
+        file.type === 'directory' && tree.dropTarget === file.path ? 'bg-brand-50 dark:bg-brand-900/40' : ''
+      }`}
+      style={{ paddingLeft: `${depth * 20 + 8}px` }}
+    >
+      {file.type === 'directory' && (
+        <span className="mr-1 text-xs text-gray-500 dark:text-gray-400">
+          {isExpanded ? '▼' : '▶'}
+        </span>
+      )}
+      <span className="mr-2">{getFileIcon(file.name, file.type, isExpanded)}</span>
+      <span className={`text-sm truncate ${status && !isSelected ? STATUS_NAME_COLORS[status] : ''}`}>{file.name}</span>
+      {change ? (
+        <span
+          className={`ml-auto pl-2 text-xs ${change.excluded ? 'opacity-40' : ''}`}
+          title={change.excluded ? `${change.status}, left out of publishing` : change.status}
+        >
+          <ChangeStatusBadge status={change.status} />
+        </span>
+      ) : folderStatus ? (
+        <span className={`ml-auto pl-2 text-xs ${STATUS_NAME_COLORS[folderStatus]}`} title="Contains changes">●</span>
+      ) : null}
+    </div>
+  );
+};
+
+interface DeletedFileRowProps {
+  change: FileChange;
+  name: string;
   depth: number;
+  onOpenDiff?: (change: FileChange) => void;
+  onRevert?: (change: FileChange) => void;
+}
+
+const DeletedFileRow: React.FC<DeletedFileRowProps> = ({ change, name, depth, onOpenDiff, onRevert }) => (
+  <div
+    onClick={() => onOpenDiff?.(change)}
+    className="group flex items-center h-7 px-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+    style={{ paddingLeft: `${depth * 20 + 8}px` }}
+    title={`${change.path} (deleted)`}
+  >
+    <span className="mr-2 opacity-50">{getFileIcon(name, 'file', false)}</span>
+    <span className={`text-sm truncate line-through ${STATUS_NAME_COLORS.deleted}`}>{name}</span>
+    {onRevert && (
+      <button
+        onClick={(e) => {
+          e.stopPropagation();
+          onRevert(change);
+        }}
+        className="ml-1 text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Restore the cloned version"
+      >
+        ↺
+      </button>
+    )}
+    <span
+      className={`ml-auto pl-2 text-xs ${change.excluded ? 'opacity-40' : ''}`}
+      title={change.excluded ? 'deleted, left out of publishing' : 'deleted'}
+    >
+      <ChangeStatusBadge status="deleted" />
+    </span>
+  </div>
+);
+
+interface MatchRowProps {
+  file: FileNode;
+  positions: number[];
+  isActive: boolean;
+  onOpen: () => void;
 }
 
-const FileItem: React.FC<FileItemProps> = ({ file, onFileSelect, selectedFile, depth }) => {
-  const [isExpanded, setIsExpanded] = useState<boolean>(depth === 0);
+// A "go to file" result: the name with the matched characters picked out, then its folder
+const MatchRow: React.FC<MatchRowProps> = ({ file, positions, isActive, onOpen }) => {
+  const matched = new Set(positions);
+  const nameStart = file.path.length - file.name.length;
+  return (
+    <div
+      onClick={onOpen}
+      className={`flex items-center h-7 px-2 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
+        isActive ? 'bg-blue-100 dark:bg-brand-900/30' : ''
+      }`}
+    >
+      <span className="mr-2">{getFileIcon(file.name, 'file', false)}</span>
+      <span className="text-sm text-gray-900 dark:text-gray-100 whitespace-nowrap">
+        {Array.from(file.name).map((char, index) => (
+          <span key={index} className={matched.has(nameStart + index) ? 'font-bold text-brand-700 dark:text-brand-300' : ''}>
+            {char}
+          </span>
+        ))}
+      </span>
+      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 truncate">{parentPath(file.path)}</span>
+    </div>
+  );
+};
+
+const ContextMenuItem: React.FC<{ label: string; shortcut?: string; onSelect: () => void; danger?: boolean }> = ({
+  label,
+  shortcut,
+  onSelect,
+  danger,
+}) => (
+  <button
+    onClick={onSelect}
+    className={`w-full flex items-center justify-between px-3 py-1 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
+      danger ? 'text-red-600 dark:text-red-400' : 'text-gray-700 dark:text-gray-200'
+    }`}
+  >
+    <span>{label}</span>
+    {shortcut && <span className="ml-6 text-xs text-gray-400">{shortcut}</span>}
+  </button>
+);
+
+const FileExplorer: React.FC<FileExplorerProps> = ({
+  files,
+  onFileSelect,
+  selectedPath,
+  onRefresh,
+  operations,
+  highlightedPaths,
+  changes,
+  onOpenDiff,
+  onRevert,
+}) => {
+  const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set());
+  const [focusedPath, setFocusedPath] = useState<string | null>(null);
+  const [editing, setEditing] = useState<EditingState | null>(null);
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [query, setQuery] = useState<string>('');
+  const [matchIndex, setMatchIndex] = useState<number>(0);
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(0);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadDirectoryRef = useRef<string>('');
+  const listRef = useRef<HTMLDivElement>(null);
+  const scrollTargetRef = useRef<string | null>(null);
+
+  const nodesByPath = useMemo(() => {
+    const nodes = new Map<string, FileNode>();
+    const visit = (list: FileNode[]): void => {
+      for (const node of list) {
+        nodes.set(node.path, node);
+        if (node.children) visit(node.children);
+      }
+    };
+    visit(files);
+    return nodes;
+  }, [files]);
+
+  const highlighted = useMemo(() => {
+    const paths = new Set<string>();
+    highlightedPaths?.forEach((path) => {
+      paths.add(path);
+      for (let directory = parentPath(path); directory; directory = parentPath(directory)) {
+        paths.add(directory);
+      }
+    });
+    return paths;
+  }, [highlightedPaths]);
 
-  const handleClick = (): void => {
-    if (file.type === 'directory') {
-      setIsExpanded(!isExpanded);
+  const statuses = useMemo(() => new Map((changes ?? []).map((change) => [change.path, change])), [changes]);
+
+  // A folder shows as added when everything changed inside it was added, otherwise as modified
+  const folderStatuses = useMemo(() => {
+    const folders = new Map<string, ChangeStatus>();
+    for (const change of changes ?? []) {
+      const paths = change.oldPath ? [change.path, change.oldPath] : [change.path];
+      for (const path of paths) {
+        for (let directory = parentPath(path); directory; directory = parentPath(directory)) {
+          const rolledUp = change.status === 'added' && folders.get(directory) !== 'modified' ? 'added' : 'modified';
+          folders.set(directory, rolledUp);
+        }
+      }
+    }
+    return folders;
+  }, [changes]);
+
+  // Deleted files by the folder they're listed in: their own, or the nearest
+  // one still there when it went too
+  const deletedByDirectory = useMemo(() => {
+    const directories = new Map<string, FileChange[]>();
+    for (const change of changes ?? []) {
+      if (change.status !== 'deleted') continue;
+      let directory = parentPath(change.path);
+      while (directory && nodesByPath.get(directory)?.type !== 'directory') {
+        directory = parentPath(directory);
+      }
+      directories.set(directory, [...(directories.get(directory) ?? []), change]);
+    }
+    return directories;
+  }, [changes, nodesByPath]);
+
+  // The expanded tree flattened into rows, so only the visible ones need rendering
+  const rows = useMemo(() => {
+    const list: TreeRow[] = [];
+    const visit = (nodes: FileNode[], depth: number, directory: string): void => {
+      if (editing?.kind === 'create' && editing.directory === directory) {
+        list.push({ kind: 'create', type: editing.type, depth });
+      }
+      for (const node of nodes) {
+        list.push({ kind: 'node', file: node, depth });
+        if (node.children && expandedPaths.has(node.path)) {
+          visit(node.children, depth + 1, node.path);
+        }
+      }
+      for (const change of deletedByDirectory.get(directory) ?? []) {
+        const name = directory ? change.path.slice(directory.length + 1) : change.path;
+        list.push({ kind: 'deleted', change, name, depth });
+      }
+    };
+    visit(files, 0, '');
+    return list;
+  }, [files, expandedPaths, editing, deletedByDirectory]);
+
+  const visiblePaths = useMemo(
+    () => rows.flatMap((row) => (row.kind === 'node' ? [row.file.path] : [])),
+    [rows]
+  );
+
+  const matches = useMemo(() => {
+    if (!query.trim()) return null;
+    const results: { file: FileNode; match: FuzzyMatch }[] = [];
+    for (const node of nodesByPath.values()) {
+      if (node.type !== 'file') continue;
+      const match = fuzzyMatch(query, node.path);
+      if (match) results.push({ file: node, match });
+    }
+    return results.sort((a, b) => b.match.score - a.match.score);
+  }, [query, nodesByPath]);
+
+  const rowCount = matches ? matches.length : rows.length;
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const observer = new ResizeObserver(() => setViewportHeight(list.clientHeight));
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  const scrollToRow = (index: number): void => {
+    const list = listRef.current;
+    if (!list || index < 0) return;
+    const top = index * ROW_HEIGHT;
+    if (top < list.scrollTop) {
+      list.scrollTop = top;
+    } else if (top + ROW_HEIGHT > list.scrollTop + list.clientHeight) {
+      list.scrollTop = top + ROW_HEIGHT - list.clientHeight;
+    }
+  };
+
+  // Rows only exist after expanding, so scrolling to a path waits for the next render
+  useEffect(() => {
+    const target = scrollTargetRef.current;
+    if (target === null) return;
+    scrollTargetRef.current = null;
+    scrollToRow(
+      target === CREATE_ROW
+        ? rows.findIndex((row) => row.kind === 'create')
+        : rows.findIndex((row) => row.kind === 'node' && row.file.path === target)
+    );
+  }, [rows]);
+
+  useEffect(() => {
+    if (!contextMenu) return;
+    const close = (): void => setContextMenu(null);
+    const handleKeyDown = (e: KeyboardEvent): void => {
+      if (e.key === 'Escape') close();
+    };
+    window.addEventListener('click', close);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('click', close);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [contextMenu]);
+
+  const setExpanded = (path: string, expanded: boolean): void => {
+    setExpandedPaths((current) => {
+      if (current.has(path) === expanded) return current;
+      const next = new Set(current);
+      if (expanded) {
+        next.add(path);
+      } else {
+        next.delete(path);
+      }
+      return next;
+    });
+  };
+
+  const run = (action: Promise<void> | undefined): void => {
+    action?.catch((error) => console.error('File operation failed:', error));
+  };
+
+  // New files go into the focused folder, or next to the focused file
+  const directoryFor = (file: FileNode | null): string =>
+    !file ? '' : file.type === 'directory' ? file.path : parentPath(file.path);
+
+  const startCreate = (type: FileNode['type'], directory: string): void => {
+    setQuery('');
+    if (directory) setExpanded(directory, true);
+    setEditing({ kind: 'create', type, directory });
+    scrollTargetRef.current = CREATE_ROW;
+  };
+
+  const focusPath = (path: string | null): void => {
+    setFocusedPath(path);
+    scrollTargetRef.current = path;
+  };
+
+  const collapseAll = (): void => {
+    setExpandedPaths(new Set());
+    listRef.current?.scrollTo({ top: 0 });
+  };
+
+  // Opens the folders down to the file in the active tab and scrolls to it
+  const revealActive = (): void => {
+    if (!selectedPath) return;
+    setQuery('');
+    revealFile(selectedPath);
+  };
+
+  const openMatch = (file: FileNode): void => {
+    setQuery('');
+    onFileSelect(file);
+    revealFile(file.path);
+  };
+
+  // Like revealActive, for a file that's about to become active
+  const revealFile = (path: string): void => {
+    setExpandedPaths((current) => {
+      const next = new Set(current);
+      for (let directory = parentPath(path); directory; directory = parentPath(directory)) {
+        next.add(directory);
+      }
+      return next;
+    });
+    focusPath(path);
+  };
+
+  const startUpload = (directory: string): void => {
+    uploadDirectoryRef.current = directory;
+    uploadInputRef.current?.click();
+  };
+
+  const handleSubmitName = (name: string): void => {
+    const current = editing;
+    setEditing(null);
+    if (!current || !operations) return;
+    if (current.kind === 'create') {
+      run(operations.create(current.directory, name, current.type));
+      setFocusedPath(joinPath(current.directory, name));
     } else {
-      onFileSelect(file);
+      const file = nodesByPath.get(current.path);
+      if (file) run(operations.rename(file, name));
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, directory: string): void => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+    if (!operations) return;
+
+    const draggedPath = e.dataTransfer.getData(TREE_DRAG_TYPE);
+    if (draggedPath) {
+      // Nowhere to go: already there, or into itself
+      if (parentPath(draggedPath) === directory || directory === draggedPath || directory.startsWith(`${draggedPath}/`)) {
+        return;
+      }
+      run(operations.move(draggedPath, directory));
+      return;
     }
+    if (e.dataTransfer.types.includes('Files')) {
+      if (directory) setExpanded(directory, true);
+      run(readDroppedFiles(e.dataTransfer).then((uploaded) => operations.upload(directory, uploaded)));
+    }
+  };
+
+  const tree: TreeState = {
+    selectedPath,
+    focusedPath,
+    expandedPaths,
+    editing,
+    dropTarget,
+    highlighted,
+    statuses,
+    folderStatuses,
+    onClick: (file) => {
+      setFocusedPath(file.path);
+      if (file.type === 'directory') {
+        setExpanded(file.path, !expandedPaths.has(file.path));
+      } else {
+        onFileSelect(file);
+      }
+    },
+    onContextMenu: (e, file) => {
+      if (!operations) return;
+      e.preventDefault();
+      e.stopPropagation();
+      if (file) setFocusedPath(file.path);
+      setContextMenu({ x: e.clientX, y: e.clientY, file });
+    },
+    onDragStart: (e, file) => {
+      e.dataTransfer.setData(TREE_DRAG_TYPE, file.path);
+      e.dataTransfer.effectAllowed = 'move';
+    },
+    onDragOver: (e, directory) => {
+      if (!operations) return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.dataTransfer.dropEffect = e.dataTransfer.types.includes(TREE_DRAG_TYPE) ? 'move' : 'copy';
+      setDropTarget(directory);
+    },
+    onDrop: handleDrop,
+    onSubmitName: handleSubmitName,
+    onCancelEditing: () => setEditing(null),
   };
 
-  const getFileIcon = (fileName: string, type: 'file' | 'directory'): string => {
-    if (type === 'directory') {
-      return isExpanded ? '📂' : '📁';
+  const handleKeyDown = (e: React.KeyboardEvent): void => {
+    const focused = focusedPath ? nodesByPath.get(focusedPath) ?? null : null;
+    const mod = e.metaKey || e.ctrlKey;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const index = focused ? visiblePaths.indexOf(focused.path) : -1;
+      const next = e.key === 'ArrowDown' ? Math.min(visiblePaths.length - 1, index + 1) : Math.max(0, index - 1);
+      focusPath(visiblePaths[next] ?? null);
+      return;
     }
-    
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    switch (ext) {
-      case 'ts':
-      case 'tsx':
-        return '🔷';
-      case 'js':
-      case 'jsx':
-        return '🟨';
-      case 'json':
-        return '📋';
-      case 'css':
-        return '🎨';
-      case 'html':
-        return '🌐';
-      case 'md':
-        return '📝';
-      default:
-        return '📄';
+    if (!focused && !(operations && (e.key === 'n' || e.key === 'N'))) return;
+
+    if (focused && e.key === 'Enter') {
+      e.preventDefault();
+      tree.onClick(focused);
+    } else if (focused && (e.key === 'ArrowRight' || e.key === 'ArrowLeft') && focused.type === 'directory') {
+      e.preventDefault();
+      setExpanded(focused.path, e.key === 'ArrowRight');
+    } else if (!operations) {
+      return;
+    } else if (focused && e.key === 'F2') {
+      e.preventDefault();
+      setEditing({ kind: 'rename', path: focused.path });
+    } else if (focused && (e.key === 'Delete' || (mod && e.key === 'Backspace'))) {
+      e.preventDefault();
+      run(operations.remove(focused));
+    } else if (focused && mod && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      run(operations.duplicate(focused));
+    } else if (!mod && e.key.toLowerCase() === 'n') {
+      e.preventDefault();
+      startCreate(e.shiftKey ? 'directory' : 'file', directoryFor(focused));
+    }
+  };
+
+  const handleFilterKeyDown = (e: React.KeyboardEvent): void => {
+    if (e.key === 'Escape') {
+      setQuery('');
+    } else if (matches && (e.key === 'ArrowDown' || e.key === 'ArrowUp')) {
+      e.preventDefault();
+      const next = e.key === 'ArrowDown' ? Math.min(matches.length - 1, matchIndex + 1) : Math.max(0, matchIndex - 1);
+      setMatchIndex(next);
+      scrollToRow(next);
+    } else if (matches && e.key === 'Enter' && matches[matchIndex]) {
+      openMatch(matches[matchIndex].file);
     }
   };
 
-  const isSelected = selectedFile?.path === file.path;
+  const menuFile = contextMenu?.file ?? null;
+  const menuDirectory = directoryFor(menuFile);
 
   return (
-    <>
+    <div className="h-full flex flex-col bg-white dark:bg-gray-800 transition-colors">
+      <div className="bg-gray-50 dark:bg-gray-900 px-4 py-2 border-b dark:border-gray-700 flex items-center justify-between transition-colors">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 transition-colors">Files</h3>
+        <div className="flex items-center space-x-2">
+          {operations && (
+            <>
+              <button
+                onClick={() => startCreate('file', directoryFor(focusedPath ? nodesByPath.get(focusedPath) ?? null : null))}
+                className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                title="New file (N)"
+              >
+                ＋
+              </button>
+              <button
+                onClick={() => startCreate('directory', directoryFor(focusedPath ? nodesByPath.get(focusedPath) ?? null : null))}
+                className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+                title="New folder (Shift+N)"
+              >
+                📁
+              </button>
+            </>
+          )}
+          <button
+            onClick={revealActive}
+            disabled={!selectedPath}
+            className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 disabled:opacity-40 transition-colors"
+            title="Reveal active file"
+          >
+            ◎
+          </button>
+          <button
+            onClick={collapseAll}
+            className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+            title="Collapse all"
+          >
+            ⊟
+          </button>
+          {onRefresh && (
+            <button
+              onClick={onRefresh}
+              className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 transition-colors"
+              title="Refresh"
+            >
+              ⟳
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="px-2 py-1.5 border-b dark:border-gray-700 transition-colors">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setMatchIndex(0);
+            listRef.current?.scrollTo({ top: 0 });
+          }}
+          onKeyDown={handleFilterKeyDown}
+          placeholder="Go to file..."
+          className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded focus:outline-none focus:ring-1 focus:ring-brand-600 transition-colors"
+        />
+      </div>
       <div
-        onClick={handleClick}
-        className={`flex items-center px-2 py-1 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors ${
-          isSelected ? 'bg-blue-100 dark:bg-brand-900/30 text-blue-700 dark:text-brand-300' : 'text-gray-900 dark:text-gray-100'
+        ref={listRef}
+        tabIndex={0}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        onKeyDown={matches ? undefined : handleKeyDown}
+        onContextMenu={(e) => tree.onContextMenu(e, null)}
+        onDragOver={(e) => tree.onDragOver(e, '')}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDropTarget(null);
+        }}
+        onDrop={(e) => handleDrop(e, '')}
+        className={`flex-1 overflow-y-auto focus:outline-none transition-colors ${
+          dropTarget === '' ? 'bg-brand-50 dark:bg-brand-900/20' : ''
         }`}
-        style={{ paddingLeft: `${depth * 20 + 8}px` }}
       >
-        {file.type === 'directory' && (
-          <span className="mr-1 text-xs text-gray-500 dark:text-gray-400">
-            {isExpanded ? '▼' : '▶'}
-          </span>
+        {matches?.length === 0 && (
+          <div className="px-4 py-3 text-sm text-gray-500 dark:text-gray-400">No files match "{query}"</div>
         )}
-        <span className="mr-2">{getFileIcon(file.name, file.type)}</span>
-        <span className="text-sm truncate">{file.name}</span>
+        {/* Only the rows in view are rendered, offset to where they'd be in the full list */}
+        <div style={{ height: rowCount * ROW_HEIGHT }}>
+          <div style={{ transform: `translateY(${firstRow * ROW_HEIGHT}px)` }}>
+            {matches
+              ? matches.slice(firstRow, lastRow).map(({ file, match }, index) => (
+                  <MatchRow
+                    key={file.path}
+                    file={file}
+                    positions={match.positions}
+                    isActive={firstRow + index === matchIndex}
+                    onOpen={() => openMatch(file)}
+                  />
+                ))
+              : rows.slice(firstRow, lastRow).map((row) =>
+                  row.kind === 'create' ? (
+                    <NameInput
+                      key="create"
+                      initialName=""
+                      icon={getFileIcon('', row.type, false)}
+                      depth={row.depth}
+                      onSubmit={handleSubmitName}
+                      onCancel={() => setEditing(null)}
+                    />
+                  ) : row.kind === 'deleted' ? (
+                    <DeletedFileRow
+                      key={`deleted:${row.change.path}`}
+                      change={row.change}
+                      name={row.name}
+                      depth={row.depth}
+                      onOpenDiff={onOpenDiff}
+                      onRevert={onRevert}
+                    />
+                  ) : (
+                    <FileRow key={row.file.path} file={row.file} tree={tree} depth={row.depth} />
+                  )
+                )}
+          </div>
+        </div>
       </div>
-      
-      {file.type === 'directory' && isExpanded && file.children && (
-        <>
-          {file.children.map((child) => (
-            <FileItem
-              key={child.path}
-              file={child}
-              onFileSelect={onFileSelect}
-              selectedFile={selectedFile}
-              depth={depth + 1}
-            />
-          ))}
-        </>
+
+      {operations && (
+        <input
+          ref={uploadInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={async (e) => {
+            const selected = Array.from(e.target.files ?? []);
+            e.target.value = '';
+            const uploaded = await Promise.all(
+              selected.map(async (file) => ({ path: file.name, content: new Uint8Array(await file.arrayBuffer()) }))
+            );
+            run(operations.upload(uploadDirectoryRef.current, uploaded));
+          }}
+        />
       )}
-    </>
-  );
-};
 
-const FileExplorer: React.FC<FileExplorerProps> = ({ files, onFileSelect, selectedFile }) => {
-  return (
-    <div className="h-full flex flex-col bg-white dark:bg-gray-800 transition-colors">
-      <div className="bg-gray-50 dark:bg-gray-900 px-4 py-2 border-b dark:border-gray-700 transition-colors">
-        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 transition-colors">Files</h3>
-      </div>
-      <div className="flex-1 overflow-y-auto">
-        {files.map((file) => (
-          <FileItem
-            key={file.path}
-            file={file}
-            onFileSelect={onFileSelect}
-            selectedFile={selectedFile}
-            depth={0}
+      {contextMenu && operations && (
+        <div
+          className="fixed z-50 min-w-[12rem] py-1 bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-md shadow-lg transition-colors"
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+        >
+          <ContextMenuItem label="New File" shortcut="N" onSelect={() => startCreate('file', menuDirectory)} />
+          <ContextMenuItem label="New Folder" shortcut="Shift+N" onSelect={() => startCreate('directory', menuDirectory)} />
+          <ContextMenuItem label="Upload Files..." onSelect={() => startUpload(menuDirectory)} />
+          <div className="my-1 border-t dark:border-gray-700" />
+          {menuFile && (
+            <>
+              <ContextMenuItem label="Rename" shortcut="F2" onSelect={() => setEditing({ kind: 'rename', path: menuFile.path })} />
+              <ContextMenuItem label="Duplicate" shortcut="Ctrl+D" onSelect={() => run(operations.duplicate(menuFile))} />
+            </>
+          )}
+          <ContextMenuItem
+            label={menuFile ? 'Download' : 'Download Project'}
+            onSelect={() => run(operations.download(menuFile))}
           />
-        ))}
-      </div>
+          {menuFile && (
+            <>
+              <div className="my-1 border-t dark:border-gray-700" />
+              <ContextMenuItem label="Delete" shortcut="Del" danger onSelect={() => run(operations.remove(menuFile))} />
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 };
 
-export default FileExplorer; 
\ No newline at end of file
+export default FileExplorer;
@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import DevServerStoppedBanner from './DevServerStoppedBanner';
+import type { DevServerExit } from './DevServerStoppedBanner';
 
 interface ServerInfo {
   url: string;
@@ -7,9 +9,20 @@ interface ServerInfo {
 
 interface PreviewPaneProps {
   serverInfo: ServerInfo | null;
+  // Set while the dev server is down
+  devServerExit: DevServerExit | null;
+  autoRestart: boolean;
+  onAutoRestartChange: (enabled: boolean) => void;
+  onRestartDevServer: () => void;
 }
 
-const PreviewPane: React.FC<PreviewPaneProps> = ({ serverInfo }) => {
+const PreviewPane: React.FC<PreviewPaneProps> = ({
+  serverInfo,
+  devServerExit,
+  autoRestart,
+  onAutoRestartChange,
+  onRestartDevServer,
+}) => {
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [hasError, setHasError] = useState<boolean>(false);
   const [retryCount, setRetryCount] = useState<number>(0);
@@ -33,6 +46,15 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ serverInfo }) => {
     }
   }, [serverInfo]);
 
+  // Nothing will answer until the server is back; its ready event reloads the preview
+  useEffect(() => {
+    if (devServerExit && retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+      setIsRetrying(false);
+    }
+  }, [devServerExit]);
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
@@ -69,7 +91,7 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ serverInfo }) => {
   };
 
   const scheduleRetry = (): void => {
-    if (!serverInfo || retryCount >= 10) return; // Max 10 retries
+    if (!serverInfo || devServerExit || retryCount >= 10) return; // Max 10 retries
     
     setIsRetrying(true);
     const delay = Math.min(1000 + retryCount * 500, 5000); // Exponential backoff, max 5s
@@ -110,7 +132,7 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ serverInfo }) => {
     setHasError(true);
     
     // Automatically start retry process if server might not be ready yet
-    if (serverInfo && retryCount < 10) {
+    if (serverInfo && !devServerExit && retryCount < 10) {
       console.log('🔄 Starting automatic retry process');
       scheduleRetry();
     }
@@ -137,16 +159,27 @@ const PreviewPane: React.FC<PreviewPaneProps> = ({ serverInfo }) => {
           </div>
         )}
       </div>
+
+      {devServerExit && (
+        <DevServerStoppedBanner
+          exit={devServerExit}
+          autoRestart={autoRestart}
+          onAutoRestartChange={onAutoRestartChange}
+          onRestart={onRestartDevServer}
+        />
+      )}
       
       <div className="flex-1 relative">
         {!serverInfo ? (
           <div className="h-full flex items-center justify-center text-gray-500">
             <div className="text-center">
               <div className="text-4xl mb-4">🚀</div>
-              <p className="text-sm">Starting development server...</p>
-              <div className="mt-4">
-                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-300 mx-auto"></div>
-              </div>
+              <p className="text-sm">{devServerExit ? 'Development server stopped' : 'Starting development server...'}</p>
+              {!devServerExit && (
+                <div className="mt-4">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-300 mx-auto"></div>
+                </div>
+              )}
             </div>
           </div>
         ) : hasError ? (
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import { ProblemChecker } from '../utils/problems';
+import type { Problem, ProblemSeverity, ProblemsState } from '../utils/problems';
+
+interface ProblemsPanelProps {
+  state: ProblemsState;
+  onOpen: (problem: Problem) => void;
+}
+
+const SEVERITY_ICONS: Record<ProblemSeverity, string> = {
+  error: '⛔',
+  warning: '⚠️',
+  info: 'ℹ️',
+};
+
+const SOURCE_NAMES = { tsc: 'TypeScript', eslint: 'ESLint' } as const;
+
+const reportFailure = (action: string) => (error: unknown): void => {
+  console.error(`Failed to ${action}:`, error);
+  alert(`Couldn't ${action}: ${error instanceof Error ? error.message : String(error)}`);
+};
+
+const ProblemsPanel: React.FC<ProblemsPanelProps> = ({ state, onOpen }) => {
+  // Problems arrive sorted by location, so each file's are already together
+  const groups = useMemo(() => {
+    const byPath = new Map<string, Problem[]>();
+    for (const problem of state.problems) {
+      byPath.set(problem.path, [...(byPath.get(problem.path) ?? []), problem]);
+    }
+    return Array.from(byPath);
+  }, [state.problems]);
+
+  const isRunning = state.running.length > 0;
+
+  return (
+    <div className="h-full flex flex-col bg-white dark:bg-gray-800 transition-colors">
+      <div className="flex items-center px-3 py-1 space-x-3 border-b dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400 transition-colors">
+        <button
+          onClick={() => ProblemChecker.check().catch(reportFailure('check the project'))}
+          disabled={isRunning}
+          className="px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+          title="Run tsc and ESLint now"
+        >
+          ▶ Check
+        </button>
+        <label className="flex items-center space-x-1 cursor-pointer" title="Check again whenever files change">
+          <input
+            type="checkbox"
+            checked={state.watching}
+            onChange={(e) => ProblemChecker.setWatching(e.target.checked).catch(reportFailure('start watch mode'))}
+          />
+          <span>Watch</span>
+        </label>
+        <span className="flex-1 truncate">
+          {isRunning
+            ? `Running ${state.running.map((source) => SOURCE_NAMES[source]).join(' and ')}...`
+            : state.checkedAt === null
+              ? 'Not checked yet'
+              : `Last checked ${new Date(state.checkedAt).toLocaleTimeString()}`}
+        </span>
+      </div>
+
+      {Object.entries(state.unavailable).map(([source, reason]) => (
+        <div
+          key={source}
+          className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400 border-b dark:border-gray-700 truncate transition-colors"
+          title={reason}
+        >
+          {SOURCE_NAMES[source as keyof typeof SOURCE_NAMES]}: {reason}
+        </div>
+      ))}
+
+      <div className="flex-1 overflow-y-auto">
+        {groups.length === 0 && state.checkedAt !== null && !isRunning && (
+          <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">No problems found.</div>
+        )}
+        {groups.map(([path, problems]) => (
+          <div key={path || '(project)'}>
+            <div className="sticky top-0 px-3 py-1 text-xs font-mono font-medium text-gray-700 dark:text-gray-300 bg-gray-50 dark:bg-gray-900 transition-colors">
+              {path || 'Project'} <span className="text-gray-400">({problems.length})</span>
+            </div>
+            {problems.map((problem, index) => (
+              <button
+                key={`${problem.source}:${problem.line}:${problem.column}:${index}`}
+                onClick={() => onOpen(problem)}
+                disabled={!problem.path}
+                className="w-full flex items-start px-3 py-0.5 pl-6 text-left text-xs hover:bg-gray-100 dark:hover:bg-gray-700 disabled:cursor-default transition-colors"
+                title={problem.message}
+              >
+                <span className="flex-shrink-0 mr-2">{SEVERITY_ICONS[problem.severity]}</span>
+                <span className="flex-1 min-w-0 truncate text-gray-800 dark:text-gray-200">{problem.message.split('\n')[0]}</span>
+                <span className="flex-shrink-0 ml-2 text-gray-400 dark:text-gray-500 font-mono">
+                  {SOURCE_NAMES[problem.source]}{problem.code ? `(${problem.code})` : ''} [{problem.line}, {problem.column}]
+                </span>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ProblemsPanel;
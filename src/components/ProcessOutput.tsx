@@ -0,0 +1,41 @@
+import React, { useLayoutEffect, useMemo, useRef } from 'react';
+import type { ProcessInfo } from '../utils/webcontainer-manager';
+import { stripAnsi } from '../utils/ansi';
+
+interface ProcessOutputProps {
+  process: ProcessInfo | null;
+}
+
+// A process's recorded output, following along as it grows unless scrolled up
+const ProcessOutput: React.FC<ProcessOutputProps> = ({ process }) => {
+  const outputRef = useRef<HTMLPreElement | null>(null);
+  const stickToBottomRef = useRef<boolean>(true);
+  const output = useMemo(() => (process ? stripAnsi(process.output) : ''), [process]);
+
+  // Another process starts at its latest output
+  useLayoutEffect(() => {
+    stickToBottomRef.current = true;
+  }, [process?.id]);
+
+  useLayoutEffect(() => {
+    const element = outputRef.current;
+    if (element && stickToBottomRef.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [output]);
+
+  return (
+    <pre
+      ref={outputRef}
+      onScroll={(e) => {
+        const element = e.currentTarget;
+        stickToBottomRef.current = element.scrollHeight - element.scrollTop - element.clientHeight < 20;
+      }}
+      className="h-full overflow-auto px-3 py-1 text-xs font-mono whitespace-pre-wrap break-all text-gray-800 dark:text-gray-200"
+    >
+      {process ? output || 'No output yet.' : ''}
+    </pre>
+  );
+};
+
+export default ProcessOutput;
@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import WebContainerManager, { isRunning } from '../utils/webcontainer-manager';
+import type { ProcessInfo, ProcessKind } from '../utils/webcontainer-manager';
+import ProcessOutput from './ProcessOutput';
+
+interface ProcessesPanelProps {
+  onRestartDevServer: () => void;
+}
+
+const KIND_LABELS: Record<ProcessKind, string> = {
+  'dev-server': 'dev server',
+  terminal: 'terminal',
+  script: 'script',
+  task: 'task',
+};
+
+const describeCommand = (info: ProcessInfo): string => [info.command, ...info.args].join(' ');
+
+const describeStatus = (info: ProcessInfo): string => {
+  if (isRunning(info)) return `running since ${new Date(info.startedAt).toLocaleTimeString()}`;
+  if (info.killed) return 'killed';
+  return `exited with code ${info.exitCode}`;
+};
+
+const statusIcon = (info: ProcessInfo): React.ReactNode => {
+  if (isRunning(info)) return <span className="text-green-600 dark:text-green-400">●</span>;
+  if (info.killed) return <span className="text-gray-400">■</span>;
+  return info.exitCode === 0 ? (
+    <span className="text-gray-400">✓</span>
+  ) : (
+    <span className="text-red-600 dark:text-red-400">✕</span>
+  );
+};
+
+const toolbarButtonClassName =
+  'px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors';
+
+const ProcessesPanel: React.FC<ProcessesPanelProps> = ({ onRestartDevServer }) => {
+  const [processes, setProcesses] = useState<ProcessInfo[]>(WebContainerManager.getProcesses());
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  useEffect(() => WebContainerManager.subscribeProcesses(setProcesses), []);
+
+  // Newest first, running ones above the rest
+  const sorted = useMemo(
+    () => [...processes].reverse().sort((a, b) => Number(isRunning(b)) - Number(isRunning(a))),
+    [processes]
+  );
+  const selected =
+    processes.find((info) => info.id === selectedId) ??
+    sorted.find((info) => info.kind === 'dev-server' && isRunning(info)) ??
+    sorted[0] ??
+    null;
+  const devServerRunning = processes.some((info) => info.kind === 'dev-server' && isRunning(info));
+
+  return (
+    <div className="h-full flex flex-col bg-white dark:bg-gray-800 transition-colors">
+      <div className="flex items-center px-3 py-1 space-x-2 border-b dark:border-gray-700 text-xs text-gray-600 dark:text-gray-400 transition-colors">
+        <button
+          onClick={onRestartDevServer}
+          className={toolbarButtonClassName}
+          title={devServerRunning ? 'Stop the dev server and start it again' : 'Start the dev server'}
+        >
+          ↻ {devServerRunning ? 'Restart' : 'Start'} dev server
+        </button>
+        <span className="flex-1" />
+        <button
+          onClick={() => WebContainerManager.clearFinishedProcesses()}
+          disabled={processes.every(isRunning)}
+          className={toolbarButtonClassName}
+          title="Forget processes that have exited"
+        >
+          Clear finished
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        <div className="w-72 flex-shrink-0 overflow-y-auto border-r dark:border-gray-700 transition-colors">
+          {sorted.length === 0 && (
+            <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">No processes yet.</div>
+          )}
+          {sorted.map((info) => (
+            <div
+              key={info.id}
+              onClick={() => setSelectedId(info.id)}
+              className={`group flex items-start px-3 py-1 text-xs cursor-pointer transition-colors ${
+                info.id === selected?.id
+                  ? 'bg-brand-50 dark:bg-brand-900/30'
+                  : 'hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+              title={`${describeCommand(info)}\nStarted ${new Date(info.startedAt).toLocaleString()}${
+                Object.keys(info.env).length > 0 ? `\nEnvironment: ${Object.keys(info.env).join(', ')}` : ''
+              }`}
+            >
+              <span className="flex-shrink-0 w-4">{statusIcon(info)}</span>
+              <div className="flex-1 min-w-0">
+                <div className="font-mono truncate text-gray-800 dark:text-gray-200">{describeCommand(info)}</div>
+                <div className="truncate text-gray-500 dark:text-gray-400">
+                  {KIND_LABELS[info.kind]} · {describeStatus(info)}
+                </div>
+              </div>
+              {isRunning(info) && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    WebContainerManager.killProcess(info.id);
+                  }}
+                  className="ml-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Kill"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex-1 min-w-0">
+          <ProcessOutput process={selected} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProcessesPanel;
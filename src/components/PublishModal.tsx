@@ -1,160 +1,411 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Octokit } from '@octokit/rest';
+import WebContainerManager from '../utils/webcontainer-manager';
+import { PULL_REQUEST_TEMPLATE_PATHS, applyPullRequestMetadata, canPushTo, createCommitFromFiles, ensureFork, formatRepoRef, getUpstreamChanges, parseRepoUrl, waitForCommit } from '../utils/github';
+import type { CommitFile, PullRequestInfo, PullRequestMetadata, RepoLocation, RepoRef } from '../utils/github';
+import { ChangeTracker } from '../utils/change-tracker';
+import type { FileChange } from '../utils/change-tracker';
+import { applyHunks, computeHunks, decodeText } from '../utils/diff';
+import type { DiffHunk } from '../utils/diff';
+import { hasConflicts, joinMergeChunks, mergeThreeWay } from '../utils/merge';
+import ChangeStatusBadge from './ChangeStatusBadge';
+import ConflictResolver from './ConflictResolver';
+import type { FileConflict } from './ConflictResolver';
+import DiffView from './DiffView';
+import PullRequestMetadataFields from './PullRequestMetadataFields';
+
+// Identifies a hunk by where it is and what it changes
+const hunkKey = (hunk: DiffHunk): string =>
+  `${hunk.oldStart},${hunk.newStart}:${hunk.lines.map((line) => `${line.type} ${line.text}`).join('')}`;
 
 interface PublishModalProps {
   repoUrl: string;
+  repoRef: RepoRef;
+  pullRequest: PullRequestInfo | null;
   githubToken: string | null;
-  modifiedFiles: Map<string, string>;
+  changes: FileChange[];
   onClose: () => void;
 }
 
-const PublishModal: React.FC<PublishModalProps> = ({ repoUrl, githubToken, modifiedFiles, onClose }) => {
+interface ChangeReview {
+  change: FileChange;
+  // Text of the cloned file, and the diff against it; null for binary files
+  oldText: string | null;
+  hunks: DiffHunk[] | null;
+}
+
+const PublishModal: React.FC<PublishModalProps> = ({ repoUrl, repoRef, pullRequest, githubToken, changes, onClose }) => {
   const [branchName, setBranchName] = useState<string>('');
+  const [title, setTitle] = useState<string>('');
   const [description, setDescription] = useState<string>('');
+  const [draft, setDraft] = useState<boolean>(false);
+  const [metadata, setMetadata] = useState<PullRequestMetadata>({ reviewers: [], teamReviewers: [], assignees: [], labels: [] });
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  // Something went wrong after publishing; the modal stays open to show it
+  const [warning, setWarning] = useState<string | null>(null);
+  const warningRef = useRef<string | null>(null);
+  const [activePath, setActivePath] = useState<string | null>(changes[0]?.path ?? null);
+  // Unticked hunks by file, identified by content so they survive the diff being recomputed
+  const [excludedHunks, setExcludedHunks] = useState<Map<string, Set<string>>>(new Map());
+  // Files that changed both here and upstream, and the branch head they were found against
+  const [conflicts, setConflicts] = useState<FileConflict[] | null>(null);
+  const [conflictsSha, setConflictsSha] = useState<string | null>(null);
+  const [resolvedConflicts, setResolvedConflicts] = useState<Map<string, string | Uint8Array | null>>(new Map());
 
-  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
-    e.preventDefault();
-    
-    if (!githubToken) {
-      setError('GitHub token is required');
-      return;
+  const reviews = useMemo<ChangeReview[]>(() => changes.map((change) => {
+    const oldText = decodeText(change.original);
+    const newText = decodeText(change.content);
+    const hunks = oldText === null || newText === null ? null : computeHunks(oldText, newText);
+    return { change, oldText, hunks };
+  }), [changes]);
+
+  // Code owners are looked up for both ends of a rename
+  const changedPaths = useMemo<string[]>(
+    () => changes.flatMap((change) => (change.oldPath ? [change.path, change.oldPath] : [change.path])),
+    [changes]
+  );
+
+  // Start new pull request descriptions from the repository's template
+  useEffect(() => {
+    if (pullRequest) return;
+    let cancelled = false;
+    const loadTemplate = async (): Promise<void> => {
+      for (const path of PULL_REQUEST_TEMPLATE_PATHS) {
+        try {
+          const template = await WebContainerManager.readFile(path);
+          if (!cancelled) {
+            setDescription((current) => current || template);
+          }
+          return;
+        } catch {
+          // Not at this location
+        }
+      }
+    };
+    loadTemplate();
+    return () => {
+      cancelled = true;
+    };
+  }, [pullRequest]);
+
+  const activeReview = reviews.find((review) => review.change.path === activePath) ?? reviews[0];
+  const activeHunks = activeReview?.hunks ?? null;
+
+  // PRs need a branch to merge into: use the checked-out branch, or the
+  // default branch when the workspace was opened from a tag or commit
+  const baseBranch = repoRef.type === 'branch' ? repoRef.name : repoRef.defaultBranch;
+
+  const isHunkIncluded = (path: string, hunk: DiffHunk): boolean => !excludedHunks.get(path)?.has(hunkKey(hunk));
+
+  const isReviewIncluded = ({ change, hunks }: ChangeReview): boolean => {
+    if (change.excluded) return false;
+    // Unticking every hunk leaves nothing to commit for the file
+    return !hunks || hunks.length === 0 || hunks.some((hunk) => isHunkIncluded(change.path, hunk));
+  };
+
+  const includedReviews = reviews.filter(isReviewIncluded);
+
+  const clearHunkExclusions = (path: string): void => {
+    const hunks = new Map(excludedHunks);
+    hunks.delete(path);
+    setExcludedHunks(hunks);
+  };
+
+  // Exclusions live in the change tracker so the explorer's Changes view
+  // shares them; either way the file starts over with all its hunks
+  const toggleFile = (review: ChangeReview): void => {
+    ChangeTracker.setExcluded(review.change.path, isReviewIncluded(review));
+    clearHunkExclusions(review.change.path);
+  };
+
+  const toggleHunk = (path: string, hunk: DiffHunk): void => {
+    const key = hunkKey(hunk);
+    const hunks = new Set(excludedHunks.get(path));
+    if (hunks.has(key)) {
+      hunks.delete(key);
+    } else {
+      hunks.add(key);
     }
+    setExcludedHunks(new Map(excludedHunks).set(path, hunks));
+  };
 
-    if (!branchName.trim()) {
-      setError('Branch name is required');
+  const revertFile = async (change: FileChange): Promise<void> => {
+    if (!window.confirm(`Revert ${change.path} to the version that was cloned? Your changes to it will be lost.`)) {
       return;
     }
+    try {
+      await ChangeTracker.revert(change);
+      clearHunkExclusions(change.path);
+    } catch (err) {
+      console.error('Failed to revert file:', err);
+      setError(`Failed to revert ${change.path}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
 
-    if (!description.trim()) {
-      setError('Description is required');
-      return;
+  // Files go up byte for byte unless some of their hunks were unticked, in
+  // which case the selected hunks are applied to the cloned text
+  const getCommitFiles = (): CommitFile[] => includedReviews.map(({ change, oldText, hunks }) => {
+    const partial = hunks && oldText !== null && hunks.some((hunk) => !isHunkIncluded(change.path, hunk));
+    const content = partial
+      ? applyHunks(oldText, hunks, (index) => isHunkIncluded(change.path, hunks[index]))
+      : change.content;
+    return { path: change.path, content, previousPath: change.oldPath };
+  });
+
+  /**
+   * The workspace was cloned at repoRef.sha but the commit goes on top of the
+   * branch as it is now. Files we changed that also changed upstream are
+   * merged line by line; overlapping edits are handed to the user to resolve.
+   * Returns null while there are unresolved conflicts.
+   */
+  const prepareCommitFiles = async (
+    octokit: Octokit,
+    location: RepoLocation,
+    latestSha: string
+  ): Promise<CommitFile[] | null> => {
+    const files = getCommitFiles();
+    if (latestSha === repoRef.sha) {
+      return files;
     }
 
-    setIsSubmitting(true);
-    setError(null);
+    setProgress('Checking for upstream changes...');
+    const basePathOf = (file: CommitFile): string => file.previousPath ?? file.path;
+    const upstreamFiles = await getUpstreamChanges(
+      octokit,
+      location,
+      repoRef.sha,
+      latestSha,
+      files.flatMap((file) => (file.previousPath ? [file.path, file.previousPath] : [file.path]))
+    );
+    console.log('Upstream changed since clone:', upstreamFiles.map((file) => file.path));
 
-    try {
-      // Parse repository URL
-      const urlParts = repoUrl.replace('https://github.com/', '').split('/');
-      if (urlParts.length < 2) {
-        throw new Error('Invalid repository URL format');
+    // Resolutions only hold for the upstream version they were made against
+    const resolutions = conflictsSha === latestSha ? resolvedConflicts : new Map<string, string | Uint8Array | null>();
+    const unresolved: FileConflict[] = [];
+    const merged = files.map((file): CommitFile => {
+      const theirs = upstreamFiles.find((upstream) => upstream.path === basePathOf(file))
+        ?? upstreamFiles.find((upstream) => upstream.path === file.path);
+      if (!theirs) {
+        return file;
+      }
+      if (resolutions.has(file.path)) {
+        return { ...file, content: resolutions.get(file.path)! };
       }
-      const owner = urlParts[0];
-      const repo = urlParts[1];
-      const sanitizedBranchName = branchName.trim().toLowerCase().replace(/[^a-z0-9-]/g, '-');
 
-      console.log('📝 Modified files to commit:', Array.from(modifiedFiles.keys()));
+      const baseText = decodeText(ChangeTracker.getOriginal(basePathOf(file)));
+      const oursText = typeof file.content === 'string' ? file.content : file.content && decodeText(file.content);
+      const theirsText = theirs.content && decodeText(theirs.content);
+      if (baseText === null || oursText === null || theirsText === null) {
+        unresolved.push({ path: file.path, ours: file.content, theirs: theirs.content, chunks: null });
+        return file;
+      }
 
-      if (modifiedFiles.size === 0) {
-        throw new Error('No files have been modified. Make some changes before publishing.');
+      const chunks = mergeThreeWay(baseText, oursText, theirsText);
+      if (hasConflicts(chunks)) {
+        unresolved.push({ path: file.path, ours: file.content, theirs: theirs.content, chunks });
+        return file;
       }
+      console.log('Merged upstream changes into', file.path);
+      return { ...file, content: joinMergeChunks(chunks, new Map()) };
+    });
 
-      const octokit = new Octokit({ auth: githubToken });
+    if (unresolved.length > 0) {
+      setConflicts(unresolved);
+      setConflictsSha(latestSha);
+      setResolvedConflicts(resolutions);
+      return null;
+    }
+    // Everything merged; the resolutions are spent
+    setConflicts(null);
+    setConflictsSha(null);
+    setResolvedConflicts(new Map());
+    return merged;
+  };
 
-      // Get repository info and default branch
-      console.log('🔍 Getting repository info...');
-      const { data: repoData } = await octokit.repos.get({ owner, repo });
-      const defaultBranch = repoData.default_branch;
-      console.log('Default branch:', defaultBranch);
+  const pushToPullRequest = async (octokit: Octokit, pr: PullRequestInfo): Promise<boolean> => {
+    const { head } = pr;
+
+    // Commit on top of the PR branch as it is now, not as it was when cloned
+    const { data: refData } = await octokit.git.getRef({
+      owner: head.owner,
+      repo: head.repo,
+      ref: `heads/${head.branch}`,
+    });
+    const latestSha = refData.object.sha;
+    console.log('PR branch:', head.branch, 'head commit SHA:', latestSha);
+
+    const files = await prepareCommitFiles(octokit, head, latestSha);
+    if (!files) {
+      return false;
+    }
 
-      // Get the latest commit SHA
+    setProgress('Uploading changes...');
+    const commitSha = await createCommitFromFiles(octokit, head, latestSha, files, description.trim());
+
+    // Fast-forward only: never force-push over commits someone else added
+    console.log('🔗 Updating pull request branch...');
+    await octokit.git.updateRef({
+      owner: head.owner,
+      repo: head.repo,
+      ref: `heads/${head.branch}`,
+      sha: commitSha,
+    });
+
+    console.log('✅ Pull request updated successfully:', pr.htmlUrl);
+    window.open(pr.htmlUrl, '_blank');
+    return true;
+  };
+
+  const pullRequestTitle = title.trim() || `Changes from BaseBase Editor: ${branchName.trim()}`;
+
+  const createPullRequest = async (octokit: Octokit): Promise<boolean> => {
+    const upstream = parseRepoUrl(repoUrl);
+    const { owner, repo } = upstream;
+    const sanitizedBranchName = branchName.trim().toLowerCase().replace(/[^a-z0-9-]/g, '-');
+
+    // Branches move, so build on their current head; tags and commits are
+    // used exactly as they were checked out
+    let latestSha = repoRef.sha;
+    if (repoRef.type === 'branch') {
       const { data: refData } = await octokit.git.getRef({
         owner,
         repo,
-        ref: `heads/${defaultBranch}`,
+        ref: `heads/${repoRef.name}`,
       });
-      const latestSha = refData.object.sha;
-      console.log('Latest commit SHA:', latestSha);
+      latestSha = refData.object.sha;
+    }
+    console.log('Base branch:', baseBranch, 'base commit SHA:', latestSha);
 
-      // Create new branch
-      console.log('🌿 Creating branch:', sanitizedBranchName);
-      await octokit.git.createRef({
-        owner,
-        repo,
-        ref: `refs/heads/${sanitizedBranchName}`,
-        sha: latestSha,
-      });
+    const files = await prepareCommitFiles(octokit, upstream, latestSha);
+    if (!files) {
+      return false;
+    }
+
+    // Without push access the branch goes to the user's fork instead
+    setProgress('Checking repository permissions...');
+    let target = upstream;
+    if (!(await canPushTo(octokit, upstream))) {
+      target = await ensureFork(octokit, upstream, setProgress);
+      await waitForCommit(octokit, target, latestSha, setProgress);
+    }
+    const isFork = target.owner !== owner || target.repo !== repo;
+
+    // Create new branch
+    console.log('🌿 Creating branch:', sanitizedBranchName, 'in', `${target.owner}/${target.repo}`);
+    setProgress(`Creating branch ${sanitizedBranchName}...`);
+    await octokit.git.createRef({
+      owner: target.owner,
+      repo: target.repo,
+      ref: `refs/heads/${sanitizedBranchName}`,
+      sha: latestSha,
+    });
 
-      // Create blobs for modified files and build tree
-      const treeItems = [];
-      console.log('📄 Creating blobs for modified files...');
-      
-      for (const [filePath, content] of modifiedFiles) {
-        console.log('Creating blob for:', filePath);
-        const { data: blobData } = await octokit.git.createBlob({
-          owner,
-          repo,
-          content,
-          encoding: 'utf-8',
-        });
-        
-        treeItems.push({
-          path: filePath,
-          mode: '100644' as const,
-          type: 'blob' as const,
-          sha: blobData.sha,
-        });
+    setProgress('Uploading changes...');
+    const commitSha = await createCommitFromFiles(octokit, target, latestSha, files, `${pullRequestTitle}\n\n${description.trim()}`);
+
+    // Update branch reference
+    console.log('🔗 Updating branch reference...');
+    await octokit.git.updateRef({
+      owner: target.owner,
+      repo: target.repo,
+      ref: `heads/${sanitizedBranchName}`,
+      sha: commitSha,
+    });
+
+    // Create pull request
+    console.log('🚀 Creating pull request...');
+    setProgress('Opening pull request...');
+    const { data: prData } = await octokit.pulls.create({
+      owner,
+      repo,
+      title: pullRequestTitle,
+      // Cross-repository PRs name the fork's owner in the head
+      head: isFork ? `${target.owner}:${sanitizedBranchName}` : sanitizedBranchName,
+      base: baseBranch,
+      body: description,
+      maintainer_can_modify: isFork ? true : undefined,
+      draft,
+    });
+
+    // A fork's author can't set these on the upstream pull request
+    if (!isFork) {
+      setProgress('Requesting reviewers and adding labels...');
+      try {
+        await applyPullRequestMetadata(octokit, upstream, prData.number, metadata);
+      } catch (err) {
+        console.warn('⚠️ Pull request created but reviewers or labels could not be set:', err);
+        const message = err instanceof Error ? err.message : String(err);
+        warningRef.current = `Pull request #${prData.number} was opened, but requesting reviewers or adding labels failed: ${message}`;
+        setWarning(warningRef.current);
       }
+    } else if (Object.values(metadata).some((values) => values.length > 0)) {
+      warningRef.current = `Pull request #${prData.number} was opened from your fork, so the reviewers, assignees and labels you picked weren't applied. Ask a maintainer to add them.`;
+      setWarning(warningRef.current);
+    }
 
-      // Create new tree
-      console.log('🌳 Creating new tree...');
-      const { data: treeData } = await octokit.git.createTree({
-        owner,
-        repo,
-        base_tree: latestSha,
-        tree: treeItems,
-      });
+    console.log('✅ Pull request created successfully:', prData.html_url);
 
-      // Create commit
-      const commitMessage = `Changes from BaseBase Editor: ${branchName}\n\n${description}`;
-      console.log('💾 Creating commit...');
-      const { data: commitData } = await octokit.git.createCommit({
-        owner,
-        repo,
-        message: commitMessage,
-        tree: treeData.sha,
-        parents: [latestSha],
-      });
+    // Success! Show the PR URL
+    window.open(prData.html_url, '_blank');
+    return true;
+  };
 
-      // Update branch reference
-      console.log('🔗 Updating branch reference...');
-      await octokit.git.updateRef({
-        owner,
-        repo,
-        ref: `heads/${sanitizedBranchName}`,
-        sha: commitData.sha,
-      });
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
 
-      // Create pull request
-      console.log('🚀 Creating pull request...');
-      const { data: prData } = await octokit.pulls.create({
-        owner,
-        repo,
-        title: `Changes from BaseBase Editor: ${branchName}`,
-        head: sanitizedBranchName,
-        base: defaultBranch,
-        body: description,
-      });
+    if (!githubToken) {
+      setError('GitHub token is required');
+      return;
+    }
 
-      console.log('✅ Pull request created successfully:', prData.html_url);
+    if (!pullRequest && !branchName.trim()) {
+      setError('Branch name is required');
+      return;
+    }
 
-      // Success! Show the PR URL
-      window.open(prData.html_url, '_blank');
-      onClose();
+    if (!description.trim()) {
+      setError(pullRequest ? 'Commit message is required' : 'Description is required');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    warningRef.current = null;
+    setWarning(null);
+
+    try {
+      console.log('📝 Changed files to commit:', includedReviews.map(({ change }) => `${change.status} ${change.path}`));
+
+      if (changes.length === 0) {
+        throw new Error('No files have been modified. Make some changes before publishing.');
+      }
+      if (includedReviews.length === 0) {
+        throw new Error('All changes are unticked. Select at least one file to publish.');
+      }
+
+      const octokit = new Octokit({ auth: githubToken });
+      const published = pullRequest
+        ? await pushToPullRequest(octokit, pullRequest)
+        : await createPullRequest(octokit);
+      if (published && !warningRef.current) {
+        onClose();
+      }
     } catch (err) {
-      console.error('❌ Failed to create pull request:', err);
+      const action = pullRequest ? 'update pull request' : 'create pull request';
+      console.error(`❌ Failed to ${action}:`, err);
       const message = err instanceof Error ? err.message : String(err);
-      setError(`Failed to create pull request: ${message}`);
+      setError(`Failed to ${action}: ${message}`);
     } finally {
       setIsSubmitting(false);
+      setProgress(null);
     }
   };
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 dark:bg-black dark:bg-opacity-70 flex items-center justify-center z-50 transition-colors">
-      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-md mx-4 transition-colors">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl p-6 w-full max-w-6xl max-h-[90vh] mx-4 flex flex-col transition-colors">
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-xl font-bold text-gray-900 dark:text-white transition-colors">Publish Changes</h2>
           <button
@@ -166,43 +417,188 @@ const PublishModal: React.FC<PublishModalProps> = ({ repoUrl, githubToken, modif
         </div>
 
         <div className="mb-4 p-3 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md transition-colors">
-          <p className="text-sm text-blue-800 dark:text-blue-300 transition-colors">
-            This will create a new branch and submit a pull request to the repository owner. 
-            Your changes will be proposed for review and can be merged by the repository maintainer.
-          </p>
+          {pullRequest ? (
+            <p className="text-sm text-blue-800 dark:text-blue-300 transition-colors">
+              This will add a commit to <span className="font-mono">{pullRequest.head.branch}</span> and
+              update pull request #{pullRequest.number}: {pullRequest.title}
+            </p>
+          ) : (
+            <>
+              <p className="text-sm text-blue-800 dark:text-blue-300 transition-colors">
+                This will create a new branch and submit a pull request to the repository owner.
+                Your changes will be proposed for review and can be merged by the repository maintainer.
+                If you can't push to this repository, the branch is pushed to your fork instead.
+              </p>
+              <p className="mt-2 text-sm text-blue-800 dark:text-blue-300 transition-colors">
+                Based on {repoRef.type} <span className="font-mono">{formatRepoRef(repoRef)}</span>
+                {repoRef.type !== 'branch' && <>, pull request targets <span className="font-mono">{baseBranch}</span></>}
+              </p>
+              {repoRef.type !== 'branch' && (
+                <p className="mt-2 text-sm text-yellow-800 dark:text-yellow-300 transition-colors">
+                  ⚠️ A {repoRef.type} doesn't move, so changes made to <span className="font-mono">{baseBranch}</span> since
+                  then aren't checked for conflicts here. GitHub will show any on the pull request.
+                </p>
+              )}
+            </>
+          )}
         </div>
 
-        <form onSubmit={handleSubmit}>
-          <div className="mb-4">
-            <label htmlFor="branchName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 transition-colors">
-              Branch Name
-            </label>
-            <input
-              type="text"
-              id="branchName"
-              value={branchName}
-              onChange={(e) => setBranchName(e.target.value)}
-              placeholder="e.g., fix-header-styling"
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-brand-600 dark:focus:ring-brand-400 transition-colors"
-              disabled={isSubmitting}
-            />
+        {conflicts ? (
+          <ConflictResolver
+            conflicts={conflicts}
+            resolved={resolvedConflicts}
+            onResolve={(path, content) => setResolvedConflicts(new Map(resolvedConflicts).set(path, content))}
+            disabled={isSubmitting}
+          />
+        ) : (
+          <div className="flex flex-1 min-h-0 mb-4 border dark:border-gray-700 rounded-md overflow-hidden transition-colors">
+            <ul className="w-72 flex-shrink-0 overflow-y-auto border-r dark:border-gray-700 divide-y dark:divide-gray-700 transition-colors">
+              {reviews.length === 0 && (
+                <li className="p-4 text-sm text-gray-500 dark:text-gray-400">No changes to review.</li>
+              )}
+              {reviews.map((review) => {
+                const { change } = review;
+                return (
+                  <li
+                    key={change.path}
+                    onClick={() => setActivePath(change.path)}
+                    className={`group flex items-center px-2 py-1.5 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                      change.path === activeReview?.change.path ? 'bg-blue-50 dark:bg-brand-900/30' : ''
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isReviewIncluded(review)}
+                      onChange={() => toggleFile(review)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="mr-2 flex-shrink-0"
+                      title="Include this file"
+                      disabled={isSubmitting}
+                    />
+                    <ChangeStatusBadge status={change.status} />
+                    <span className="flex-1 font-mono text-xs text-gray-800 dark:text-gray-200 truncate" title={change.path}>
+                      {change.path}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        revertFile(change);
+                      }}
+                      className="ml-1 text-xs text-gray-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Revert to the cloned version"
+                      disabled={isSubmitting}
+                    >
+                      ↺
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+            <div className="flex-1 overflow-auto p-3">
+              {activeReview && (
+                <>
+                  <div className="mb-2 font-mono text-xs text-gray-600 dark:text-gray-300 transition-colors">
+                    {activeReview.change.oldPath ? `${activeReview.change.oldPath} → ` : ''}{activeReview.change.path}
+                  </div>
+                  {activeHunks ? (
+                    <DiffView
+                      hunks={activeHunks}
+                      isHunkSelected={(index) => isHunkIncluded(activeReview.change.path, activeHunks[index])}
+                      onToggleHunk={(index) => toggleHunk(activeReview.change.path, activeHunks[index])}
+                    />
+                  ) : (
+                    <div className="text-sm text-gray-500 dark:text-gray-400 p-4 transition-colors">
+                      Binary file; it can only be included or left out as a whole.
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
           </div>
+        )}
 
-          <div className="mb-4">
-            <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 transition-colors">
-              What changes did you make?
-            </label>
-            <textarea
-              id="description"
-              value={description}
-              onChange={(e) => setDescription(e.target.value)}
-              placeholder="Describe the changes you made..."
-              rows={4}
-              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-brand-600 dark:focus:ring-brand-400 transition-colors"
-              disabled={isSubmitting}
-            />
+        <form onSubmit={handleSubmit}>
+          <div className={pullRequest ? '' : 'grid grid-cols-2 gap-6'}>
+            <div>
+              {!pullRequest && (
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  <div>
+                    <label htmlFor="branchName" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 transition-colors">
+                      Branch Name
+                    </label>
+                    <input
+                      type="text"
+                      id="branchName"
+                      value={branchName}
+                      onChange={(e) => setBranchName(e.target.value)}
+                      placeholder="e.g., fix-header-styling"
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-brand-600 dark:focus:ring-brand-400 transition-colors"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="title" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 transition-colors">
+                      Title
+                    </label>
+                    <input
+                      type="text"
+                      id="title"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      placeholder={`Changes from BaseBase Editor: ${branchName.trim() || '<branch>'}`}
+                      className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-brand-600 dark:focus:ring-brand-400 transition-colors"
+                      disabled={isSubmitting}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="mb-4">
+                <label htmlFor="description" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2 transition-colors">
+                  {pullRequest ? 'Commit message' : 'What changes did you make?'}
+                </label>
+                <textarea
+                  id="description"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  placeholder={pullRequest ? 'e.g., Address review feedback' : 'Describe the changes you made...'}
+                  rows={pullRequest ? 3 : 6}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md focus:outline-none focus:ring-2 focus:ring-brand-600 dark:focus:ring-brand-400 transition-colors"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            {!pullRequest && githubToken && (
+              <div className="mb-4">
+                <PullRequestMetadataFields
+                  repoUrl={repoUrl}
+                  githubToken={githubToken}
+                  changedPaths={changedPaths}
+                  draft={draft}
+                  onDraftChange={setDraft}
+                  metadata={metadata}
+                  onMetadataChange={setMetadata}
+                  disabled={isSubmitting}
+                />
+              </div>
+            )}
           </div>
 
+          {progress && (
+            <div className="mb-4 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-300 transition-colors">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-brand-600"></div>
+              <span>{progress}</span>
+            </div>
+          )}
+
+          {warning && !progress && (
+            <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md transition-colors">
+              <p className="text-sm text-yellow-800 dark:text-yellow-300 transition-colors">⚠️ {warning}</p>
+            </div>
+          )}
+
           {error && (
             <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md transition-colors">
               <p className="text-sm text-red-800 dark:text-red-300 transition-colors">{error}</p>
@@ -221,9 +617,11 @@ const PublishModal: React.FC<PublishModalProps> = ({ repoUrl, githubToken, modif
             <button
               type="submit"
               className="px-4 py-2 text-sm font-medium text-white bg-brand-600 hover:bg-brand-700 rounded-md disabled:opacity-50 transition-colors"
-              disabled={isSubmitting}
+              disabled={isSubmitting || warning !== null}
             >
-              {isSubmitting ? 'Creating PR...' : 'Create Pull Request'}
+              {pullRequest
+                ? (isSubmitting ? 'Pushing commit...' : `Push ${includedReviews.length} of ${reviews.length} files`)
+                : (isSubmitting ? 'Creating PR...' : `Create Pull Request (${includedReviews.length} of ${reviews.length} files)`)}
             </button>
           </div>
         </form>
@@ -232,4 +630,4 @@ const PublishModal: React.FC<PublishModalProps> = ({ repoUrl, githubToken, modif
   );
 };
 
-export default PublishModal; 
\ No newline at end of file
+export default PublishModal;
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Octokit } from '@octokit/rest';
+import WebContainerManager from '../utils/webcontainer-manager';
+import { canPushTo, getPullRequestOptions, parseRepoUrl } from '../utils/github';
+import type { PullRequestMetadata, PullRequestOptions } from '../utils/github';
+import { CODEOWNERS_PATHS, parseCodeowners, suggestReviewers } from '../utils/codeowners';
+import type { SuggestedReviewers } from '../utils/codeowners';
+
+interface PullRequestMetadataFieldsProps {
+  repoUrl: string;
+  githubToken: string;
+  // Paths touched by the pull request, used to look up code owners
+  changedPaths: string[];
+  draft: boolean;
+  onDraftChange: (draft: boolean) => void;
+  metadata: PullRequestMetadata;
+  onMetadataChange: (metadata: PullRequestMetadata) => void;
+  disabled: boolean;
+}
+
+interface ChipOption {
+  value: string;
+  label: string;
+  suggested?: boolean;
+}
+
+interface ChipPickerProps {
+  label: string;
+  options: ChipOption[];
+  selected: string[];
+  onToggle: (value: string) => void;
+  disabled: boolean;
+}
+
+const ChipPicker: React.FC<ChipPickerProps> = ({ label, options, selected, onToggle, disabled }) => (
+  <div className="mb-3">
+    <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1 transition-colors">{label}</div>
+    {options.length === 0 ? (
+      <div className="text-xs text-gray-500 dark:text-gray-400">None available</div>
+    ) : (
+      <div className="flex flex-wrap gap-1 max-h-20 overflow-y-auto">
+        {options.map((option) => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onToggle(option.value)}
+              disabled={disabled}
+              title={option.suggested ? 'Suggested by CODEOWNERS' : undefined}
+              className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                isSelected
+                  ? 'bg-brand-600 border-brand-600 text-white'
+                  : option.suggested
+                    ? 'border-brand-600 text-brand-700 dark:text-brand-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                    : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+              }`}
+            >
+              {option.suggested && !isSelected ? '★ ' : ''}{option.label}
+            </button>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+// Reviewer chips mix users and teams; team values carry this prefix
+const TEAM_PREFIX = 'team:';
+
+const readCodeowners = async (): Promise<string | null> => {
+  for (const path of CODEOWNERS_PATHS) {
+    try {
+      return await WebContainerManager.readFile(path);
+    } catch {
+      // Not at this location
+    }
+  }
+  return null;
+};
+
+const toggle = (values: string[], value: string): string[] =>
+  values.includes(value) ? values.filter((existing) => existing !== value) : [...values, value];
+
+const PullRequestMetadataFields: React.FC<PullRequestMetadataFieldsProps> = ({
+  repoUrl,
+  githubToken,
+  changedPaths,
+  draft,
+  onDraftChange,
+  metadata,
+  onMetadataChange,
+  disabled,
+}) => {
+  const [options, setOptions] = useState<PullRequestOptions | null>(null);
+  const [canPush, setCanPush] = useState<boolean | null>(null);
+  const [codeowners, setCodeowners] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async (): Promise<void> => {
+      try {
+        const octokit = new Octokit({ auth: githubToken });
+        const location = parseRepoUrl(repoUrl);
+        const [pushAccess, repoOptions, codeownersContent] = await Promise.all([
+          canPushTo(octokit, location),
+          getPullRequestOptions(octokit, location),
+          readCodeowners(),
+        ]);
+        if (cancelled) return;
+        setCanPush(pushAccess);
+        setOptions(repoOptions);
+        setCodeowners(codeownersContent);
+      } catch (err) {
+        console.error('Failed to load pull request options:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : String(err));
+        }
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [githubToken, repoUrl]);
+
+  const suggested = useMemo<SuggestedReviewers>(() => {
+    if (!codeowners) return { users: [], teams: [] };
+    return suggestReviewers(parseCodeowners(codeowners), changedPaths);
+  }, [codeowners, changedPaths]);
+
+  const draftToggle = (
+    <label className="flex items-center space-x-2 mb-3 text-sm text-gray-700 dark:text-gray-300 transition-colors">
+      <input type="checkbox" checked={draft} onChange={(e) => onDraftChange(e.target.checked)} disabled={disabled} />
+      <span>Open as draft</span>
+    </label>
+  );
+
+  if (error) {
+    return (
+      <>
+        {draftToggle}
+        <div className="text-sm text-red-600 dark:text-red-400">Couldn't load labels and reviewers: {error}</div>
+      </>
+    );
+  }
+
+  if (!options || canPush === null) {
+    return (
+      <>
+        {draftToggle}
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading labels and reviewers...</div>
+      </>
+    );
+  }
+
+  // Outside contributors' PRs come from a fork, and GitHub only lets people
+  // with write access request reviews or set assignees and labels
+  if (!canPush) {
+    return (
+      <>
+        {draftToggle}
+        <p className="text-xs text-gray-500 dark:text-gray-400 transition-colors">
+          You don't have write access to this repository, so reviewers, assignees and labels
+          can't be set. The maintainers will pick them up from the pull request.
+          {suggested.users.length > 0 && <> Code owners for these files: {suggested.users.map((user) => `@${user}`).join(', ')}.</>}
+        </p>
+      </>
+    );
+  }
+
+  // The author can't review their own pull request
+  const people = options.assignableUsers.filter((user) => user !== options.viewer);
+  const suggestedUsers = suggested.users.filter((user) => user !== options.viewer);
+  const reviewerOptions: ChipOption[] = [
+    ...suggestedUsers.map((user) => ({ value: user, label: user, suggested: true })),
+    ...people.filter((user) => !suggestedUsers.includes(user)).map((user) => ({ value: user, label: user })),
+  ];
+  const teamOptions: ChipOption[] = suggested.teams.map((team) => ({ value: `${TEAM_PREFIX}${team}`, label: `team: ${team}`, suggested: true }));
+
+  return (
+    <>
+      {draftToggle}
+      <ChipPicker
+        label="Reviewers"
+        options={[...reviewerOptions, ...teamOptions]}
+        selected={[...metadata.reviewers, ...metadata.teamReviewers.map((team) => `${TEAM_PREFIX}${team}`)]}
+        onToggle={(value) =>
+          value.startsWith(TEAM_PREFIX)
+            ? onMetadataChange({ ...metadata, teamReviewers: toggle(metadata.teamReviewers, value.slice(TEAM_PREFIX.length)) })
+            : onMetadataChange({ ...metadata, reviewers: toggle(metadata.reviewers, value) })
+        }
+        disabled={disabled}
+      />
+      <ChipPicker
+        label="Assignees"
+        options={[options.viewer, ...people].map((user) => ({ value: user, label: user }))}
+        selected={metadata.assignees}
+        onToggle={(value) => onMetadataChange({ ...metadata, assignees: toggle(metadata.assignees, value) })}
+        disabled={disabled}
+      />
+      <ChipPicker
+        label="Labels"
+        options={options.labels.map((label) => ({ value: label, label }))}
+        selected={metadata.labels}
+        onToggle={(value) => onMetadataChange({ ...metadata, labels: toggle(metadata.labels, value) })}
+        disabled={disabled}
+      />
+    </>
+  );
+};
+
+export default PullRequestMetadataFields;
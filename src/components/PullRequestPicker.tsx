@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Octokit } from '@octokit/rest';
+import ReactMarkdown from 'react-markdown';
+import { listOpenPullRequests, parseRepoUrl } from '../utils/github';
+import type { PullRequestInfo, PullRequestSummary } from '../utils/github';
+
+interface PullRequestPickerProps {
+  repoUrl: string;
+  githubToken: string | null;
+  pullRequest: PullRequestInfo | null;
+}
+
+const PullRequestPicker: React.FC<PullRequestPickerProps> = ({ repoUrl, githubToken, pullRequest }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [showDetails, setShowDetails] = useState<boolean>(false);
+  const [pullRequests, setPullRequests] = useState<PullRequestSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const togglePicker = async (): Promise<void> => {
+    const nextOpen = !isOpen;
+    setIsOpen(nextOpen);
+    setShowDetails(false);
+    if (!nextOpen || pullRequests || !githubToken) {
+      return;
+    }
+
+    try {
+      const octokit = new Octokit({ auth: githubToken });
+      setPullRequests(await listOpenPullRequests(octokit, parseRepoUrl(repoUrl)));
+      setError(null);
+    } catch (err) {
+      console.error('Failed to list pull requests:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  // Switching what's checked out means a fresh clone, so reload through the URL
+  const openPullRequest = (pullNumber: number): void => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('pr', String(pullNumber));
+    window.location.href = url.toString();
+  };
+
+  const openDefaultBranch = (): void => {
+    const { owner, repo } = parseRepoUrl(repoUrl);
+    const url = new URL(window.location.href);
+    url.searchParams.set('repo', `https://github.com/${owner}/${repo}`);
+    window.location.href = url.toString();
+  };
+
+  return (
+    <div className="relative flex items-center space-x-2">
+      {pullRequest && (
+        <button
+          onClick={() => {
+            setShowDetails(!showDetails);
+            setIsOpen(false);
+          }}
+          className="text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white max-w-xs truncate transition-colors"
+          title="Show pull request description"
+        >
+          <span className="font-mono text-gray-500 dark:text-gray-400">#{pullRequest.number}</span> {pullRequest.title}
+        </button>
+      )}
+      <button
+        onClick={togglePicker}
+        className="text-xs text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 px-2 py-1 rounded transition-colors"
+      >
+        Pull requests ▾
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full mt-2 w-96 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-md shadow-lg z-40 transition-colors">
+          <button
+            onClick={openDefaultBranch}
+            className="w-full text-left px-3 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 border-b dark:border-gray-700 transition-colors"
+          >
+            Open default branch
+          </button>
+          {error && (
+            <div className="px-3 py-2 text-sm text-red-600 dark:text-red-400">{error}</div>
+          )}
+          {!pullRequests && !error && (
+            <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">Loading pull requests...</div>
+          )}
+          {pullRequests?.length === 0 && (
+            <div className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No open pull requests</div>
+          )}
+          {pullRequests?.map((pr) => (
+            <button
+              key={pr.number}
+              onClick={() => openPullRequest(pr.number)}
+              className={`w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors ${
+                pr.number === pullRequest?.number ? 'bg-blue-50 dark:bg-brand-900/30' : ''
+              }`}
+            >
+              <div className="text-sm text-gray-900 dark:text-white truncate">
+                <span className="font-mono text-gray-500 dark:text-gray-400">#{pr.number}</span> {pr.title}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                {pr.author} · {pr.headBranch}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showDetails && pullRequest && (
+        <div className="absolute left-0 top-full mt-2 w-[32rem] max-h-96 overflow-y-auto bg-white dark:bg-gray-800 border dark:border-gray-700 rounded-md shadow-lg p-4 z-40 transition-colors">
+          <div className="flex items-start justify-between mb-2">
+            <h3 className="text-sm font-bold text-gray-900 dark:text-white">{pullRequest.title}</h3>
+            <a
+              href={pullRequest.htmlUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs text-blue-600 dark:text-blue-400 hover:underline ml-2 whitespace-nowrap"
+            >
+              View on GitHub
+            </a>
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            {pullRequest.head.owner}:{pullRequest.head.branch} → {pullRequest.baseBranch}
+          </div>
+          <div className="prose prose-sm max-w-none text-sm text-gray-700 dark:text-gray-300">
+            {pullRequest.body ? <ReactMarkdown>{pullRequest.body}</ReactMarkdown> : <em>No description provided.</em>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PullRequestPicker;
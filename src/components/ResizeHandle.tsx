@@ -0,0 +1,52 @@
+import React, { useRef } from 'react';
+
+interface ResizeHandleProps {
+  // Called with the distance moved since the previous call while dragging
+  onResize: (delta: number) => void;
+  direction?: 'horizontal' | 'vertical';
+}
+
+const ResizeHandle: React.FC<ResizeHandleProps> = ({ onResize, direction = 'horizontal' }) => {
+  const lastPositionRef = useRef<number>(0);
+  const isHorizontal = direction === 'horizontal';
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>): void => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPositionRef.current = isHorizontal ? e.clientX : e.clientY;
+    // Iframes swallow pointer events, so keep the cursor consistent over the preview
+    document.body.style.cursor = isHorizontal ? 'col-resize' : 'row-resize';
+    document.body.style.userSelect = 'none';
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>): void => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const position = isHorizontal ? e.clientX : e.clientY;
+    const delta = position - lastPositionRef.current;
+    if (delta !== 0) {
+      lastPositionRef.current = position;
+      onResize(delta);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>): void => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    document.body.style.cursor = '';
+    document.body.style.userSelect = '';
+  };
+
+  return (
+    <div
+      role="separator"
+      aria-orientation={isHorizontal ? 'vertical' : 'horizontal'}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      className={`flex-shrink-0 bg-gray-200 dark:bg-gray-700 hover:bg-brand-500 dark:hover:bg-brand-500 transition-colors ${
+        isHorizontal ? 'w-1 cursor-col-resize' : 'h-1 cursor-row-resize'
+      }`}
+    />
+  );
+};
+
+export default ResizeHandle;
@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import WebContainerManager, { isRunning } from '../utils/webcontainer-manager';
+import type { ProcessInfo } from '../utils/webcontainer-manager';
+import { describeScript, findPackages, scriptArgs, splitArgs } from '../utils/package-scripts';
+import type { PackageScripts, ScriptRef } from '../utils/package-scripts';
+import ProcessOutput from './ProcessOutput';
+
+interface ScriptsPanelProps {
+  // The script serving the preview, null until it's been resolved
+  previewScript: ScriptRef | null;
+  onPreviewScriptChange: (ref: ScriptRef) => void;
+}
+
+// One run of a script, shown in its own output channel
+interface ScriptRun {
+  processId: number;
+  ref: ScriptRef;
+  args: string[];
+}
+
+const sameScript = (a: ScriptRef | null, b: ScriptRef): boolean =>
+  a !== null && a.directory === b.directory && a.script === b.script;
+
+const runStatusIcon = (info: ProcessInfo | undefined): React.ReactNode => {
+  if (!info) return <span className="text-gray-400">■</span>;
+  if (isRunning(info)) return <span className="text-green-600 dark:text-green-400">●</span>;
+  if (info.killed) return <span className="text-gray-400">■</span>;
+  return info.exitCode === 0 ? (
+    <span className="text-gray-400">✓</span>
+  ) : (
+    <span className="text-red-600 dark:text-red-400">✕</span>
+  );
+};
+
+const scriptButtonClassName =
+  'px-1 text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity';
+
+const ScriptsPanel: React.FC<ScriptsPanelProps> = ({ previewScript, onPreviewScriptChange }) => {
+  const [packages, setPackages] = useState<PackageScripts[]>([]);
+  const [processes, setProcesses] = useState<ProcessInfo[]>(WebContainerManager.getProcesses());
+  const [runs, setRuns] = useState<ScriptRun[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+
+  useEffect(() => WebContainerManager.subscribeProcesses(setProcesses), []);
+
+  useEffect(() => {
+    const load = (): void => {
+      findPackages().then(setPackages);
+    };
+    load();
+    let stopWatching: (() => void) | null = null;
+    let cancelled = false;
+    WebContainerManager.watchFiles((paths) => {
+      if (paths.some((path) => path === 'package.json' || path.endsWith('/package.json'))) load();
+    }).then((stop) => {
+      if (cancelled) {
+        stop();
+      } else {
+        stopWatching = stop;
+      }
+    });
+    return () => {
+      cancelled = true;
+      stopWatching?.();
+    };
+  }, []);
+
+  const run = async (ref: ScriptRef, args: string[] = []): Promise<void> => {
+    try {
+      const process = await WebContainerManager.spawn('npm', scriptArgs(ref.script, args), {
+        cwd: ref.directory || undefined,
+        kind: 'script',
+      });
+      // The registry keeps the output; this copy isn't read
+      process.output.cancel().catch(() => {});
+      setRuns((current) => [...current, { processId: process.id, ref, args }]);
+      setActiveId(process.id);
+    } catch (error) {
+      console.error(`Failed to run ${describeScript(ref)}:`, error);
+      alert(`Couldn't run ${describeScript(ref)}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const runWithArgs = (ref: ScriptRef): void => {
+    const text = window.prompt(`Arguments for ${describeScript(ref)}:`);
+    if (text === null) return;
+    run(ref, splitArgs(text));
+  };
+
+  const closeRun = (processId: number): void => {
+    const info = processes.find((process) => process.id === processId);
+    if (info && isRunning(info)) {
+      WebContainerManager.killProcess(processId);
+    }
+    const index = runs.findIndex((entry) => entry.processId === processId);
+    const remaining = runs.filter((entry) => entry.processId !== processId);
+    setRuns(remaining);
+    if (activeId === processId) {
+      setActiveId(remaining[Math.min(index, remaining.length - 1)]?.processId ?? null);
+    }
+  };
+
+  const activeProcess = processes.find((info) => info.id === activeId) ?? null;
+
+  return (
+    <div className="h-full flex bg-white dark:bg-gray-800 transition-colors">
+      <div className="w-72 flex-shrink-0 overflow-y-auto border-r dark:border-gray-700 text-xs transition-colors">
+        {packages.length === 0 && (
+          <div className="px-3 py-2 text-gray-500 dark:text-gray-400">No package.json found.</div>
+        )}
+        {packages.map((pkg) => (
+          <div key={pkg.directory} className="py-1">
+            <div
+              className="px-3 py-0.5 font-medium text-gray-700 dark:text-gray-300 truncate"
+              title={pkg.directory || 'Project root'}
+            >
+              {pkg.name}
+              {pkg.directory && <span className="ml-1 font-normal text-gray-400">{pkg.directory}</span>}
+            </div>
+            {Object.keys(pkg.scripts).length === 0 && (
+              <div className="px-5 py-0.5 text-gray-400">No scripts.</div>
+            )}
+            {Object.entries(pkg.scripts).map(([script, command]) => {
+              const ref: ScriptRef = { directory: pkg.directory, script };
+              const serving = sameScript(previewScript, ref);
+              return (
+                <div
+                  key={script}
+                  className="group flex items-center pl-5 pr-2 py-0.5 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                  title={command}
+                >
+                  <span className="flex-1 min-w-0 truncate font-mono text-gray-800 dark:text-gray-200">{script}</span>
+                  {serving && (
+                    <span className="ml-1 px-1 rounded bg-brand-100 dark:bg-brand-900/40 text-brand-700 dark:text-brand-300">
+                      preview
+                    </span>
+                  )}
+                  <button onClick={() => run(ref)} className={scriptButtonClassName} title="Run">
+                    ▶
+                  </button>
+                  <button onClick={() => runWithArgs(ref)} className={scriptButtonClassName} title="Run with arguments…">
+                    ▶…
+                  </button>
+                  {!serving && (
+                    <button
+                      onClick={() => onPreviewScriptChange(ref)}
+                      className={scriptButtonClassName}
+                      title="Serve the preview with this script"
+                    >
+                      👁
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="flex overflow-x-auto border-b dark:border-gray-700 text-xs transition-colors">
+          {runs.map((entry) => {
+            const info = processes.find((process) => process.id === entry.processId);
+            const label = [describeScript(entry.ref), ...entry.args].join(' ');
+            return (
+              <div
+                key={entry.processId}
+                onClick={() => setActiveId(entry.processId)}
+                className={`group flex items-center flex-shrink-0 px-3 py-0.5 cursor-pointer border-r dark:border-gray-700 transition-colors ${
+                  entry.processId === activeId
+                    ? 'text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700'
+                    : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                }`}
+              >
+                <span className="mr-1">{runStatusIcon(info)}</span>
+                <span className="font-mono">{label}</span>
+                {info && !isRunning(info) && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      closeRun(entry.processId);
+                      run(entry.ref, entry.args);
+                    }}
+                    className="ml-2 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Run again"
+                  >
+                    ↻
+                  </button>
+                )}
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    closeRun(entry.processId);
+                  }}
+                  className="ml-2 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title={info && isRunning(info) ? 'Stop and close' : 'Close'}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+        <div className="flex-1 min-h-0">
+          {runs.length === 0 ? (
+            <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+              Run a script to see its output here.
+            </div>
+          ) : (
+            <ProcessOutput process={activeProcess} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScriptsPanel;
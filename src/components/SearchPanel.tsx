@@ -0,0 +1,355 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { EditorPosition } from '../utils/editor-tabs';
+import { buildSearchRegex, expandReplacement, replaceInFile, searchProject } from '../utils/search';
+import type { FileSearchResult, SearchMatch, SearchOptions, SearchResults } from '../utils/search';
+
+interface SearchPanelProps {
+  // Focuses the search box when the panel is shown
+  active: boolean;
+  onOpenMatch: (path: string, position: EditorPosition) => void;
+}
+
+// Typing pauses this long before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const describeError = (error: unknown): string => (error instanceof Error ? error.message : String(error));
+
+const ToggleButton: React.FC<{ label: string; title: string; active: boolean; onClick: () => void }> = ({
+  label,
+  title,
+  active,
+  onClick,
+}) => (
+  <button
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`px-1 rounded text-xs font-mono transition-colors ${
+      active
+        ? 'bg-brand-100 dark:bg-brand-900 text-brand-700 dark:text-brand-300'
+        : 'text-gray-500 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-600'
+    }`}
+  >
+    {label}
+  </button>
+);
+
+const inputClassName =
+  'w-full px-2 py-1 text-xs border dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-1 focus:ring-brand-500 transition-colors';
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ active, onOpenMatch }) => {
+  const [options, setOptions] = useState<SearchOptions>({
+    query: '',
+    isRegex: false,
+    caseSensitive: false,
+    wholeWord: false,
+    include: '',
+    exclude: '',
+  });
+  const [replacement, setReplacement] = useState<string>('');
+  const [showReplace, setShowReplace] = useState<boolean>(false);
+  const [showGlobs, setShowGlobs] = useState<boolean>(false);
+  const [results, setResults] = useState<SearchResults | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState<boolean>(false);
+  const [isReplacing, setIsReplacing] = useState<boolean>(false);
+  const [collapsedPaths, setCollapsedPaths] = useState<Set<string>>(new Set());
+  const queryInputRef = useRef<HTMLInputElement | null>(null);
+  // Only the latest search gets to show its results
+  const searchIdRef = useRef<number>(0);
+
+  useEffect(() => {
+    if (active) {
+      queryInputRef.current?.focus();
+      queryInputRef.current?.select();
+    }
+  }, [active]);
+
+  const runSearch = useCallback(async (searchOptions: SearchOptions): Promise<void> => {
+    const searchId = ++searchIdRef.current;
+    if (!searchOptions.query) {
+      setResults(null);
+      setError(null);
+      return;
+    }
+    try {
+      buildSearchRegex(searchOptions);
+    } catch (regexError) {
+      setError(describeError(regexError));
+      setResults(null);
+      return;
+    }
+
+    setIsSearching(true);
+    try {
+      const found = await searchProject(searchOptions);
+      if (searchId === searchIdRef.current) {
+        setResults(found);
+        setError(null);
+      }
+    } catch (searchError) {
+      console.error('Search failed:', searchError);
+      if (searchId === searchIdRef.current) {
+        setError(describeError(searchError));
+      }
+    } finally {
+      if (searchId === searchIdRef.current) {
+        setIsSearching(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    const timeout = window.setTimeout(() => runSearch(options), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [options, runSearch]);
+
+  const updateOptions = (changes: Partial<SearchOptions>): void => setOptions((current) => ({ ...current, ...changes }));
+
+  // Replaces, then searches again so the results show what's left
+  const replace = async (description: string, action: () => Promise<number>): Promise<void> => {
+    setIsReplacing(true);
+    try {
+      const count = await action();
+      console.log(`🔁 Replaced ${count} match(es) ${description}`);
+    } catch (replaceError) {
+      console.error(`Failed to replace ${description}:`, replaceError);
+      alert(`Couldn't replace ${description}: ${describeError(replaceError)}`);
+    } finally {
+      setIsReplacing(false);
+      await runSearch(options);
+    }
+  };
+
+  const replaceMatch = (file: FileSearchResult, match: SearchMatch): Promise<void> =>
+    replace(`in ${file.path}:${match.line}`, () => replaceInFile(file.path, options, replacement, [match.offset]));
+
+  const replaceFile = (file: FileSearchResult): Promise<void> =>
+    replace(`in ${file.path}`, () => replaceInFile(file.path, options, replacement));
+
+  const replaceAll = async (): Promise<void> => {
+    if (!results) return;
+    // The shown results stop at the match limit; everything means every match
+    let allResults = results;
+    if (results.truncated) {
+      try {
+        allResults = await searchProject(options, Infinity);
+      } catch (searchError) {
+        console.error('Search failed:', searchError);
+        alert(`Couldn't find every match: ${describeError(searchError)}`);
+        return;
+      }
+    }
+    const matchCount = allResults.files.reduce((count, file) => count + file.matches.length, 0);
+    if (!confirm(`Replace ${matchCount} match(es) in ${allResults.files.length} file(s) with "${replacement}"?`)) {
+      return;
+    }
+    await replace('across the project', async () => {
+      let count = 0;
+      for (const file of allResults.files) {
+        count += await replaceInFile(file.path, options, replacement);
+      }
+      return count;
+    });
+  };
+
+  const toggleCollapsed = (path: string): void => {
+    setCollapsedPaths((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const matchCount = results?.files.reduce((count, file) => count + file.matches.length, 0) ?? 0;
+
+  return (
+    <div className="h-full flex flex-col bg-white dark:bg-gray-800 transition-colors">
+      <div className="p-2 space-y-1 border-b dark:border-gray-700 transition-colors">
+        <div className="flex items-start space-x-1">
+          <button
+            onClick={() => setShowReplace((show) => !show)}
+            className="mt-1 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+            title={showReplace ? 'Hide replace' : 'Show replace'}
+          >
+            {showReplace ? '▾' : '▸'}
+          </button>
+          <div className="flex-1 min-w-0 space-y-1">
+            <div className="relative">
+              <input
+                ref={queryInputRef}
+                value={options.query}
+                onChange={(e) => updateOptions({ query: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') runSearch(options);
+                }}
+                placeholder="Search"
+                className={`${inputClassName} pr-20`}
+              />
+              <div className="absolute right-1 top-1/2 -translate-y-1/2 flex space-x-0.5">
+                <ToggleButton
+                  label="Aa"
+                  title="Match case"
+                  active={options.caseSensitive}
+                  onClick={() => updateOptions({ caseSensitive: !options.caseSensitive })}
+                />
+                <ToggleButton
+                  label="ab"
+                  title="Match whole word"
+                  active={options.wholeWord}
+                  onClick={() => updateOptions({ wholeWord: !options.wholeWord })}
+                />
+                <ToggleButton
+                  label=".*"
+                  title="Use regular expression"
+                  active={options.isRegex}
+                  onClick={() => updateOptions({ isRegex: !options.isRegex })}
+                />
+              </div>
+            </div>
+            {showReplace && (
+              <div className="flex items-center space-x-1">
+                <input
+                  value={replacement}
+                  onChange={(e) => setReplacement(e.target.value)}
+                  placeholder={options.isRegex ? 'Replace ($1 for groups)' : 'Replace'}
+                  className={inputClassName}
+                />
+                <button
+                  onClick={replaceAll}
+                  disabled={!results || matchCount === 0 || isReplacing}
+                  className="flex-shrink-0 px-1.5 py-0.5 text-xs rounded text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 transition-colors"
+                  title="Replace all"
+                >
+                  ⇶
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <button
+          onClick={() => setShowGlobs((show) => !show)}
+          className="ml-4 text-xs text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+        >
+          {showGlobs ? 'Hide file filters' : 'Filter files…'}
+        </button>
+        {showGlobs && (
+          <div className="ml-4 space-y-1">
+            <input
+              value={options.include}
+              onChange={(e) => updateOptions({ include: e.target.value })}
+              placeholder="Files to include (e.g. *.ts, src)"
+              className={inputClassName}
+            />
+            <input
+              value={options.exclude}
+              onChange={(e) => updateOptions({ exclude: e.target.value })}
+              placeholder="Files to exclude (e.g. *.test.ts)"
+              className={inputClassName}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="px-3 py-1 text-xs text-gray-500 dark:text-gray-400 transition-colors">
+        {error ? (
+          <span className="text-red-600 dark:text-red-400">{error}</span>
+        ) : isSearching ? (
+          'Searching...'
+        ) : results ? (
+          matchCount === 0
+            ? 'No results.'
+            : `${matchCount}${results.truncated ? '+' : ''} results in ${results.files.length} files`
+        ) : null}
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {results?.files.map((file) => (
+          <div key={file.path}>
+            <div className="group sticky top-0 flex items-center px-2 py-0.5 bg-gray-50 dark:bg-gray-900 text-xs transition-colors">
+              <button
+                onClick={() => toggleCollapsed(file.path)}
+                className="flex-1 min-w-0 flex items-center text-left font-mono text-gray-700 dark:text-gray-300 truncate"
+                title={file.path}
+              >
+                <span className="mr-1 text-gray-400">{collapsedPaths.has(file.path) ? '▸' : '▾'}</span>
+                <span className="truncate">{file.path}</span>
+                <span className="ml-1 text-gray-400">({file.matches.length})</span>
+              </button>
+              {showReplace && (
+                <button
+                  onClick={() => replaceFile(file)}
+                  disabled={isReplacing}
+                  className="ml-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Replace all in this file"
+                >
+                  ⇶
+                </button>
+              )}
+            </div>
+            {!collapsedPaths.has(file.path) &&
+              file.matches.map((match) => (
+                <div
+                  key={match.offset}
+                  className="group flex items-start pl-5 pr-2 py-0.5 text-xs font-mono hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <button
+                    onClick={() => onOpenMatch(file.path, { line: match.line, column: match.column })}
+                    className="flex-1 min-w-0 text-left"
+                    title={`${file.path}:${match.line}:${match.column}`}
+                  >
+                    {match.before.map((line, index) => (
+                      <div key={`before-${index}`} className="truncate text-gray-400 dark:text-gray-500">
+                        {line || ' '}
+                      </div>
+                    ))}
+                    <div className="truncate text-gray-800 dark:text-gray-200">
+                      <span className="mr-2 text-gray-400">{match.line}</span>
+                      {match.lineText.slice(0, match.column - 1)}
+                      <span
+                        className={
+                          showReplace
+                            ? 'bg-red-100 dark:bg-red-900/50 line-through'
+                            : 'bg-yellow-200 dark:bg-yellow-700/60'
+                        }
+                      >
+                        {match.lineText.slice(match.column - 1, match.column - 1 + match.text.length) || match.text}
+                      </span>
+                      {showReplace && (
+                        <span className="bg-green-100 dark:bg-green-900/50">
+                          {expandReplacement(replacement, match, options.isRegex)}
+                        </span>
+                      )}
+                      {match.lineText.slice(match.column - 1 + match.text.length)}
+                    </div>
+                    {match.after.map((line, index) => (
+                      <div key={`after-${index}`} className="truncate text-gray-400 dark:text-gray-500">
+                        {line || ' '}
+                      </div>
+                    ))}
+                  </button>
+                  {showReplace && (
+                    <button
+                      onClick={() => replaceMatch(file, match)}
+                      disabled={isReplacing}
+                      className="ml-1 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Replace"
+                    >
+                      ⇄
+                    </button>
+                  )}
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { EditorPosition } from '../utils/editor-tabs';
+import TerminalView from './TerminalView';
+
+interface TerminalPanelProps {
+  // The panel is showing; the first terminal starts when it first does
+  active: boolean;
+  onOpenFile: (path: string, position: EditorPosition) => void;
+}
+
+interface TerminalSession {
+  id: number;
+  // Set once the shell has exited
+  exitCode: number | null;
+}
+
+const TerminalPanel: React.FC<TerminalPanelProps> = ({ active, onOpenFile }) => {
+  const [sessions, setSessions] = useState<TerminalSession[]>([]);
+  const [activeId, setActiveId] = useState<number | null>(null);
+  const nextIdRef = useRef<number>(1);
+
+  const addSession = useCallback((): void => {
+    const id = nextIdRef.current++;
+    setSessions((current) => [...current, { id, exitCode: null }]);
+    setActiveId(id);
+  }, []);
+
+  useEffect(() => {
+    if (active && nextIdRef.current === 1) {
+      addSession();
+    }
+  }, [active, addSession]);
+
+  const closeSession = (id: number): void => {
+    const index = sessions.findIndex((session) => session.id === id);
+    const remaining = sessions.filter((session) => session.id !== id);
+    setSessions(remaining);
+    if (activeId === id) {
+      setActiveId(remaining[Math.min(index, remaining.length - 1)]?.id ?? null);
+    }
+  };
+
+  const markExited = useCallback((id: number, exitCode: number): void => {
+    setSessions((current) => current.map((session) => (session.id === id ? { ...session, exitCode } : session)));
+  }, []);
+
+  return (
+    <div className="h-full flex flex-col bg-white dark:bg-gray-800 transition-colors">
+      <div className="flex items-center border-b dark:border-gray-700 text-xs transition-colors">
+        <div className="flex flex-1 min-w-0 overflow-x-auto">
+          {sessions.map((session, index) => (
+            <div
+              key={session.id}
+              onClick={() => setActiveId(session.id)}
+              className={`group flex items-center flex-shrink-0 px-3 py-0.5 cursor-pointer border-r dark:border-gray-700 transition-colors ${
+                session.id === activeId
+                  ? 'text-gray-900 dark:text-white bg-gray-100 dark:bg-gray-700'
+                  : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+              }`}
+            >
+              <span className={session.exitCode !== null ? 'line-through' : ''}>
+                {index + 1}: jsh
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  closeSession(session.id);
+                }}
+                className="ml-2 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                title={session.exitCode === null ? 'Kill terminal' : 'Close terminal'}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={addSession}
+          className="flex-shrink-0 px-2 py-0.5 text-gray-500 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+          title="New terminal"
+        >
+          +
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {sessions.length === 0 && (
+          <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+            No terminals open. Press + to start one.
+          </div>
+        )}
+        {sessions.map((session) => (
+          <TerminalView
+            key={session.id}
+            visible={active && session.id === activeId}
+            onOpenFile={onOpenFile}
+            onExit={(exitCode) => markExited(session.id, exitCode)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TerminalPanel;
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef } from 'react';
+import { Terminal } from '@xterm/xterm';
+import type { ILink, ITheme } from '@xterm/xterm';
+import { FitAddon } from '@xterm/addon-fit';
+import type { WebContainerProcess } from '@webcontainer/api';
+import '@xterm/xterm/css/xterm.css';
+import type { EditorPosition } from '../utils/editor-tabs';
+import { findFileLinks, resolveLinkPath } from '../utils/terminal-links';
+import type { FileLink } from '../utils/terminal-links';
+import { watchEffectiveTheme } from '../utils/theme';
+import WebContainerManager from '../utils/webcontainer-manager';
+
+interface TerminalViewProps {
+  // Hidden terminals keep their shell running; showing one refits and focuses it
+  visible: boolean;
+  onOpenFile: (path: string, position: EditorPosition) => void;
+  onExit: (exitCode: number) => void;
+}
+
+// xterm's default palette is made for dark backgrounds; these are VS Code's
+const THEMES: Record<'light' | 'dark', ITheme> = {
+  light: {
+    background: '#ffffff',
+    foreground: '#1f2937',
+    cursor: '#1f2937',
+    selectionBackground: '#bfdbfe',
+    black: '#000000',
+    red: '#cd3131',
+    green: '#00bc00',
+    yellow: '#949800',
+    blue: '#0451a5',
+    magenta: '#bc05bc',
+    cyan: '#0598bc',
+    white: '#555555',
+    brightBlack: '#666666',
+    brightRed: '#cd3131',
+    brightGreen: '#14ce14',
+    brightYellow: '#b5ba00',
+    brightBlue: '#0451a5',
+    brightMagenta: '#bc05bc',
+    brightCyan: '#0598bc',
+    brightWhite: '#a5a5a5',
+  },
+  dark: {
+    background: '#1f2937',
+    foreground: '#e5e7eb',
+    cursor: '#e5e7eb',
+    selectionBackground: '#4b5563',
+  },
+};
+
+// The printed paths that are files in the project, resolved
+const resolveLinks = async (links: FileLink[]): Promise<(FileLink & { resolved: string })[]> => {
+  const container = await WebContainerManager.getInstance();
+  const resolved = await Promise.all(
+    links.map(async (link) => {
+      const path = resolveLinkPath(link.path, container.workdir);
+      return path && (await WebContainerManager.exists(path)) ? { ...link, resolved: path } : null;
+    })
+  );
+  return resolved.filter((link) => link !== null);
+};
+
+const TerminalView: React.FC<TerminalViewProps> = ({ visible, onOpenFile, onExit }) => {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const terminalRef = useRef<Terminal | null>(null);
+  const fitRef = useRef<FitAddon | null>(null);
+  // The terminal is set up once, so callbacks are read through refs
+  const onOpenFileRef = useRef(onOpenFile);
+  const onExitRef = useRef(onExit);
+
+  useEffect(() => {
+    onOpenFileRef.current = onOpenFile;
+    onExitRef.current = onExit;
+  }, [onOpenFile, onExit]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const terminal = new Terminal({
+      fontFamily: 'Menlo, Monaco, "Courier New", monospace',
+      fontSize: 13,
+      cursorBlink: true,
+      scrollback: 5000,
+    });
+    const fit = new FitAddon();
+    terminal.loadAddon(fit);
+    terminal.open(element);
+    terminalRef.current = terminal;
+    fitRef.current = fit;
+    // Hidden elements have no size to fit to
+    const refit = (): void => {
+      if (element.clientWidth > 0 && element.clientHeight > 0) fit.fit();
+    };
+    refit();
+
+    const stopWatchingTheme = watchEffectiveTheme((theme) => {
+      terminal.options.theme = THEMES[theme];
+    });
+
+    // Ctrl+C stays an interrupt; copying takes Ctrl+Shift+C, or Cmd+C with a selection
+    terminal.attachCustomKeyEventHandler((event) => {
+      if (event.type !== 'keydown' || !(event.ctrlKey || event.metaKey)) return true;
+      const key = event.key.toLowerCase();
+      // Left for the workspace, which toggles the panel on it
+      if (event.ctrlKey && key === '`') return false;
+      if (key === 'c' && (event.shiftKey || event.metaKey) && terminal.hasSelection()) {
+        event.preventDefault();
+        navigator.clipboard.writeText(terminal.getSelection()).catch((error) => console.error('Failed to copy:', error));
+        return false;
+      }
+      if (key === 'v' && event.shiftKey) {
+        event.preventDefault();
+        navigator.clipboard
+          .readText()
+          .then((text) => terminal.paste(text))
+          .catch((error) => console.error('Failed to paste:', error));
+        return false;
+      }
+      return true;
+    });
+
+    const linkProvider = terminal.registerLinkProvider({
+      provideLinks: (lineNumber, callback) => {
+        const text = terminal.buffer.active.getLine(lineNumber - 1)?.translateToString(true) ?? '';
+        const candidates = findFileLinks(text);
+        if (candidates.length === 0) {
+          callback(undefined);
+          return;
+        }
+        resolveLinks(candidates)
+          .then((links) =>
+            callback(
+              links.map(
+                (link): ILink => ({
+                  range: { start: { x: link.start + 1, y: lineNumber }, end: { x: link.end, y: lineNumber } },
+                  text: text.slice(link.start, link.end),
+                  activate: () => onOpenFileRef.current(link.resolved, link.position),
+                })
+              )
+            )
+          )
+          .catch(() => callback(undefined));
+      },
+    });
+
+    let shell: WebContainerProcess | null = null;
+    let disposed = false;
+    WebContainerManager.spawnShell({ cols: terminal.cols, rows: terminal.rows })
+      .then((spawned) => {
+        if (disposed) {
+          spawned.kill();
+          return;
+        }
+        shell = spawned;
+        spawned.output
+          .pipeTo(new WritableStream({ write: (data) => terminal.write(data) }))
+          .catch(() => {});
+        const input = spawned.input.getWriter();
+        terminal.onData((data) => {
+          input.write(data).catch(() => {});
+        });
+        terminal.onResize(({ cols, rows }) => spawned.resize({ cols, rows }));
+        spawned.exit.then((exitCode) => {
+          if (disposed) return;
+          terminal.write(`\r\n\x1b[90m[Process exited with code ${exitCode}]\x1b[0m\r\n`);
+          onExitRef.current(exitCode);
+        });
+      })
+      .catch((error) => {
+        console.error('Failed to start a shell:', error);
+        terminal.write(`\x1b[31mCouldn't start a shell: ${error instanceof Error ? error.message : String(error)}\x1b[0m\r\n`);
+        onExitRef.current(-1);
+      });
+
+    const resizeObserver = new ResizeObserver(refit);
+    resizeObserver.observe(element);
+
+    return () => {
+      disposed = true;
+      resizeObserver.disconnect();
+      stopWatchingTheme();
+      linkProvider.dispose();
+      shell?.kill();
+      terminal.dispose();
+      terminalRef.current = null;
+      fitRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!visible || !element || element.clientWidth === 0) return;
+    fitRef.current?.fit();
+    terminalRef.current?.focus();
+  }, [visible]);
+
+  return <div ref={containerRef} className={`h-full w-full pl-2 pt-1 bg-white dark:bg-gray-800 ${visible ? '' : 'hidden'}`} />;
+};
+
+export default TerminalView;
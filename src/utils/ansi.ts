@@ -0,0 +1,19 @@
+// Escape sequences for colours, cursor movement and window titles
+// eslint-disable-next-line no-control-regex
+const ESCAPE_SEQUENCE = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-_]/g;
+
+/**
+ * Terminal output as plain text: escape sequences removed, and lines a
+ * spinner or progress bar redrew with "\r" reduced to what they ended as.
+ */
+export function stripAnsi(text: string): string {
+  return text
+    .replace(ESCAPE_SEQUENCE, "")
+    .replace(/\r\n/g, "\n")
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.replace(/\r+$/, "");
+      return trimmed.slice(trimmed.lastIndexOf("\r") + 1);
+    })
+    .join("\n");
+}
@@ -0,0 +1,319 @@
+import type { IFSWatcher, WebContainer } from "@webcontainer/api";
+import { createIgnoreMatcher, isAlwaysIgnored, isInIgnoredPath } from "./ignore";
+import type { IgnoreMatcher } from "./ignore";
+
+export type ChangeStatus = "added" | "modified" | "deleted" | "renamed";
+
+export interface FileChange {
+  path: string;
+  status: ChangeStatus;
+  // Previous location of a renamed file
+  oldPath?: string;
+  // Workspace contents, null for deleted files
+  content: Uint8Array | null;
+  // Contents at clone time, null for added files
+  original: Uint8Array | null;
+  // Left out of publishing by the user
+  excluded: boolean;
+}
+
+type ChangeListener = (changes: FileChange[]) => void;
+
+const WATCH_DEBOUNCE_MS = 300;
+
+const encoder = new TextEncoder();
+
+const toBytes = (content: string | Uint8Array): Uint8Array =>
+  typeof content === "string" ? encoder.encode(content) : content;
+
+const sameBytes = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a === b) return true;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+/**
+ * Keeps the tree as it was cloned and follows the container filesystem to
+ * derive what was added, modified, deleted or renamed since. Writes made
+ * through WebContainerManager are recorded directly; everything else (npm,
+ * code generators, the dev server) is picked up by a recursive fs.watch.
+ */
+export class ChangeTracker {
+  private static baseline = new Map<string, Uint8Array>();
+  private static workspace = new Map<string, Uint8Array>();
+  private static environmentPaths = new Set<string>();
+  private static excludedPaths = new Set<string>();
+  private static listeners = new Set<ChangeListener>();
+  private static container: WebContainer | null = null;
+  private static watcher: IFSWatcher | null = null;
+  private static isIgnored: IgnoreMatcher = () => false;
+  private static pendingPaths = new Set<string>();
+  private static flushTimeout: number | null = null;
+  private static cachedChanges: FileChange[] | null = null;
+
+  static setBaseline(files: Map<string, string | Uint8Array>): void {
+    this.baseline = new Map();
+    for (const [path, content] of files) {
+      this.baseline.set(path, toBytes(content));
+    }
+    this.workspace = new Map(this.baseline);
+    this.excludedPaths = new Set();
+    this.invalidate();
+  }
+
+  static getBaseline(): Map<string, Uint8Array> {
+    return this.baseline;
+  }
+
+  // Picks up a saved workspace: the clone it started from plus the changes made since
+  static restore(baseline: Map<string, Uint8Array>, changes: FileChange[]): void {
+    this.baseline = new Map(baseline);
+    this.workspace = new Map(baseline);
+    this.excludedPaths = new Set();
+    for (const change of changes) {
+      // Snapshots saved before exclusions existed don't have the flag
+      if (change.excluded) {
+        this.excludedPaths.add(change.path);
+      }
+      if (change.oldPath) {
+        this.workspace.delete(change.oldPath);
+      }
+      if (change.content) {
+        this.workspace.set(change.path, change.content);
+      } else {
+        this.workspace.delete(change.path);
+      }
+    }
+    this.invalidate();
+  }
+
+  /**
+   * Marks a file the editor writes for its own setup (dev server config,
+   * .env.local with tokens) so it never shows up as a change to publish.
+   */
+  static ignorePath(path: string): void {
+    this.environmentPaths.add(path);
+    this.workspace.delete(path);
+    if (this.baseline.has(path)) {
+      this.workspace.set(path, this.baseline.get(path)!);
+    }
+    this.invalidate();
+  }
+
+  static async start(container: WebContainer): Promise<void> {
+    this.stop();
+    this.container = container;
+
+    try {
+      this.isIgnored = createIgnoreMatcher(await container.fs.readFile(".gitignore", "utf-8"));
+    } catch {
+      this.isIgnored = createIgnoreMatcher(null);
+    }
+
+    this.watcher = container.fs.watch(".", { recursive: true }, (_event, filename) => {
+      const path = String(filename).replace(/^\.\//, "");
+      if (!this.shouldTrack(path)) {
+        return;
+      }
+      this.pendingPaths.add(path);
+      if (this.flushTimeout) {
+        clearTimeout(this.flushTimeout);
+      }
+      this.flushTimeout = window.setTimeout(() => this.flush(), WATCH_DEBOUNCE_MS);
+    });
+    console.log("👀 Change tracking started");
+  }
+
+  static stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = null;
+    }
+    this.pendingPaths.clear();
+  }
+
+  static recordWrite(path: string, content: string | Uint8Array): void {
+    const normalizedPath = path.replace(/^\.\//, "");
+    if (!this.shouldTrack(normalizedPath)) {
+      return;
+    }
+    this.workspace.set(normalizedPath, toBytes(content));
+    this.invalidate();
+  }
+
+  static recordDelete(path: string): void {
+    this.forget(path.replace(/^\.\//, ""));
+    this.invalidate();
+  }
+
+  // Follows a file or directory that was renamed or moved
+  static recordRename(from: string, to: string): void {
+    const oldPath = from.replace(/^\.\//, "");
+    const newPath = to.replace(/^\.\//, "");
+    for (const [path, content] of Array.from(this.workspace)) {
+      if (path !== oldPath && !path.startsWith(`${oldPath}/`)) continue;
+      this.workspace.delete(path);
+      const movedPath = newPath + path.slice(oldPath.length);
+      if (this.shouldTrack(movedPath)) {
+        this.workspace.set(movedPath, content);
+      }
+    }
+    this.invalidate();
+  }
+
+  /**
+   * Puts a changed file back the way it was cloned: added files are removed,
+   * renamed files move back to their old path.
+   */
+  static async revert(change: FileChange): Promise<void> {
+    const container = this.container;
+    if (!container) {
+      throw new Error("Change tracking has not started");
+    }
+
+    if (change.status === "added" || change.status === "renamed") {
+      await container.fs.rm(change.path, { force: true });
+      this.forget(change.path);
+    }
+
+    const originalPath = change.oldPath ?? change.path;
+    if (change.original) {
+      const parent = originalPath.split("/").slice(0, -1).join("/");
+      if (parent) {
+        await container.fs.mkdir(parent, { recursive: true });
+      }
+      await container.fs.writeFile(originalPath, change.original);
+      this.workspace.set(originalPath, change.original);
+    }
+    this.excludedPaths.delete(change.path);
+    this.invalidate();
+  }
+
+  // Keeps a changed file out of (or puts it back into) what gets published
+  static setExcluded(path: string, excluded: boolean): void {
+    if (excluded) {
+      this.excludedPaths.add(path);
+    } else {
+      this.excludedPaths.delete(path);
+    }
+    this.invalidate();
+  }
+
+  static subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    listener(this.getChanges());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static getOriginal(path: string): Uint8Array | null {
+    return this.baseline.get(path) ?? null;
+  }
+
+  static getChanges(): FileChange[] {
+    if (this.cachedChanges) {
+      return this.cachedChanges;
+    }
+
+    const added: FileChange[] = [];
+    const deleted: FileChange[] = [];
+    const changes: FileChange[] = [];
+
+    for (const [path, content] of this.workspace) {
+      const original = this.baseline.get(path);
+      if (!original) {
+        added.push({ path, status: "added", content, original: null, excluded: this.excludedPaths.has(path) });
+      } else if (!sameBytes(original, content)) {
+        changes.push({ path, status: "modified", content, original, excluded: this.excludedPaths.has(path) });
+      }
+    }
+    for (const [path, original] of this.baseline) {
+      if (!this.workspace.has(path) && !this.environmentPaths.has(path)) {
+        deleted.push({ path, status: "deleted", content: null, original, excluded: this.excludedPaths.has(path) });
+      }
+    }
+
+    // A deleted file whose exact contents reappear elsewhere was moved
+    for (const addition of added) {
+      const index = deleted.findIndex((deletion) => sameBytes(deletion.original!, addition.content!));
+      if (index === -1) {
+        changes.push(addition);
+        continue;
+      }
+      const [deletion] = deleted.splice(index, 1);
+      changes.push({ ...addition, status: "renamed", oldPath: deletion.path, original: deletion.original });
+    }
+    changes.push(...deleted);
+
+    this.cachedChanges = changes.sort((a, b) => a.path.localeCompare(b.path));
+    return this.cachedChanges;
+  }
+
+  private static shouldTrack(path: string): boolean {
+    if (!path || isAlwaysIgnored(path) || this.environmentPaths.has(path)) {
+      return false;
+    }
+    // Files that were part of the clone are tracked even if .gitignore matches them
+    return this.baseline.has(path) || !isInIgnoredPath(this.isIgnored, path);
+  }
+
+  private static async flush(): Promise<void> {
+    this.flushTimeout = null;
+    const container = this.container;
+    if (!container) return;
+
+    const paths = Array.from(this.pendingPaths);
+    this.pendingPaths.clear();
+    for (const path of paths) {
+      await this.refreshPath(container, path);
+    }
+    this.invalidate();
+  }
+
+  private static async refreshPath(container: WebContainer, path: string): Promise<void> {
+    try {
+      this.workspace.set(path, await container.fs.readFile(path));
+      return;
+    } catch {
+      // Not a readable file: either a directory or something that was removed
+    }
+
+    let entries;
+    try {
+      entries = await container.fs.readdir(path, { withFileTypes: true });
+    } catch {
+      this.forget(path);
+      return;
+    }
+
+    // A directory appeared or was moved here; pick up everything inside it
+    for (const entry of entries) {
+      const childPath = `${path}/${entry.name}`;
+      if (this.shouldTrack(childPath)) {
+        await this.refreshPath(container, childPath);
+      }
+    }
+  }
+
+  // Drops a file, or a whole directory, from the workspace view
+  private static forget(path: string): void {
+    for (const trackedPath of Array.from(this.workspace.keys())) {
+      if (trackedPath === path || trackedPath.startsWith(`${path}/`)) {
+        this.workspace.delete(trackedPath);
+      }
+    }
+  }
+
+  private static invalidate(): void {
+    this.cachedChanges = null;
+    if (this.listeners.size === 0) return;
+    const changes = this.getChanges();
+    this.listeners.forEach((listener) => listener(changes));
+  }
+}
@@ -0,0 +1,64 @@
+// CODEOWNERS parsing for suggesting pull request reviewers
+
+import { patternToRegex } from "./ignore";
+
+export const CODEOWNERS_PATHS = ["CODEOWNERS", ".github/CODEOWNERS", "docs/CODEOWNERS"];
+
+interface CodeownersRule {
+  pattern: RegExp;
+  // Names a directory ("docs/", or no globs in the last segment as in "**/logs"), so covers everything below it
+  directory: boolean;
+  owners: string[];
+}
+
+export interface SuggestedReviewers {
+  users: string[];
+  // Team slugs, without the organization
+  teams: string[];
+}
+
+export function parseCodeowners(content: string): CodeownersRule[] {
+  return content
+    .split("\n")
+    .map((line) => line.replace(/#.*$/, "").trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern: patternToRegex(pattern), directory: pattern.endsWith("/") || !/[*?]/.test(pattern.split("/").pop() ?? ""), owners };
+    });
+}
+
+// The last matching rule wins. Globs match the path itself ("docs/*" is one
+// level deep); a rule naming a directory covers everything below it
+const ownersOf = (rules: CodeownersRule[], path: string): string[] => {
+  const segments = path.split("/");
+  const ancestors = segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join("/"));
+  for (let i = rules.length - 1; i >= 0; i--) {
+    const rule = rules[i];
+    if (rule.pattern.test(path) || (rule.directory && ancestors.some((ancestor) => rule.pattern.test(ancestor)))) {
+      return rule.owners;
+    }
+  }
+  return [];
+};
+
+/**
+ * Collects the owners of the given paths. Email owners can't be requested
+ * as reviewers through the API, so only @user and @org/team entries count.
+ */
+export function suggestReviewers(rules: CodeownersRule[], paths: string[]): SuggestedReviewers {
+  const users = new Set<string>();
+  const teams = new Set<string>();
+  for (const path of paths) {
+    for (const owner of ownersOf(rules, path)) {
+      if (!owner.startsWith("@")) continue;
+      const [name, team] = owner.slice(1).split("/");
+      if (team) {
+        teams.add(team);
+      } else {
+        users.add(name);
+      }
+    }
+  }
+  return { users: Array.from(users), teams: Array.from(teams) };
+}
@@ -0,0 +1,270 @@
+// Line diffs for reviewing workspace changes against the cloned baseline
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  // Line text including its trailing newline, if it had one
+  text: string;
+  // 1-based line numbers on either side; absent on the side the line isn't on
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface DiffHunk {
+  // 0-based position and length of the hunk in the old and new line arrays
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface SideBySideRow {
+  left: DiffLine | null;
+  right: DiffLine | null;
+}
+
+const DEFAULT_CONTEXT_LINES = 3;
+
+// Beyond this many edits the O(D²) trace gets expensive; report a full rewrite instead
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Splits text into lines that keep their "\n", so joining them reproduces the
+ * text exactly and a missing final newline shows up as a change.
+ */
+export function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/**
+ * Returns the text of a file, or null when it looks binary (a NUL byte near
+ * the start, or bytes that aren't valid UTF-8).
+ */
+export function decodeText(bytes: Uint8Array | null): string | null {
+  if (!bytes) return "";
+  if (bytes.subarray(0, 8000).includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// Myers' O(ND) shortest edit script over the lines between the common prefix and suffix
+const diffMiddle = (a: string[], b: string[]): DiffLine["type"][] => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for k in [-d-1, d+1] as it was before round d
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && d <= MAX_EDIT_DISTANCE; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+    if (found) break;
+  }
+
+  if (!found) {
+    return [...Array<DiffLine["type"]>(n).fill("remove"), ...Array<DiffLine["type"]>(m).fill("add")];
+  }
+
+  const ops: DiffLine["type"][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (k: number): number => previous[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push("context");
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? "add" : "remove");
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+/**
+ * Diffs two texts line by line, returning every line of both sides in order.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const ops: DiffLine["type"][] = [
+    ...Array<DiffLine["type"]>(prefix).fill("context"),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...Array<DiffLine["type"]>(suffix).fill("context"),
+  ];
+
+  const lines: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const type of ops) {
+    if (type === "context") {
+      lines.push({ type, text: a[oldIndex], oldNumber: oldIndex + 1, newNumber: newIndex + 1 });
+      oldIndex++;
+      newIndex++;
+    } else if (type === "remove") {
+      lines.push({ type, text: a[oldIndex], oldNumber: oldIndex + 1 });
+      oldIndex++;
+    } else {
+      lines.push({ type, text: b[newIndex], newNumber: newIndex + 1 });
+      newIndex++;
+    }
+  }
+  return lines;
+}
+
+/**
+ * Groups a diff into hunks of changed lines with some unchanged context
+ * around them. Changes closer together than twice the context share a hunk.
+ */
+export function computeHunks(
+  oldText: string,
+  newText: string,
+  contextLines: number = DEFAULT_CONTEXT_LINES
+): DiffHunk[] {
+  const lines = diffLines(oldText, newText);
+  const hunks: DiffHunk[] = [];
+
+  // Position of each diff line in the old and new line arrays
+  const oldPositions: number[] = [];
+  const newPositions: number[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const line of lines) {
+    oldPositions.push(oldIndex);
+    newPositions.push(newIndex);
+    if (line.type !== "add") oldIndex++;
+    if (line.type !== "remove") newIndex++;
+  }
+
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      index++;
+      continue;
+    }
+
+    const from = Math.max(0, index - contextLines);
+    let lastChange = index;
+    let cursor = index + 1;
+    while (cursor < lines.length && cursor - lastChange <= contextLines * 2 + 1) {
+      if (lines[cursor].type !== "context") {
+        lastChange = cursor;
+      }
+      cursor++;
+    }
+    const to = Math.min(lines.length, lastChange + contextLines + 1);
+
+    const hunkLines = lines.slice(from, to);
+    hunks.push({
+      oldStart: oldPositions[from],
+      oldLines: hunkLines.filter((line) => line.type !== "add").length,
+      newStart: newPositions[from],
+      newLines: hunkLines.filter((line) => line.type !== "remove").length,
+      lines: hunkLines,
+    });
+    index = to;
+  }
+
+  return hunks;
+}
+
+/**
+ * Rebuilds a file from its old text, taking the new side of the hunks that
+ * are selected and leaving the rest as they were.
+ */
+export function applyHunks(
+  oldText: string,
+  hunks: DiffHunk[],
+  isSelected: (index: number) => boolean
+): string {
+  const original = splitLines(oldText);
+  const output: string[] = [];
+  let position = 0;
+
+  hunks.forEach((hunk, index) => {
+    output.push(...original.slice(position, hunk.oldStart));
+    const skipped = isSelected(index) ? "remove" : "add";
+    for (const line of hunk.lines) {
+      if (line.type !== skipped) {
+        output.push(line.text);
+      }
+    }
+    position = hunk.oldStart + hunk.oldLines;
+  });
+  output.push(...original.slice(position));
+
+  return output.join("");
+}
+
+/**
+ * Pairs up hunk lines for a two-column view: removed lines sit next to the
+ * lines that replaced them.
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === "context") {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === "remove") {
+      removed.push(lines[index++]);
+    }
+    while (index < lines.length && lines[index].type === "add") {
+      added.push(lines[index++]);
+    }
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+  }
+  return rows;
+}
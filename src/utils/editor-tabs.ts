@@ -0,0 +1,300 @@
+import { decodeText } from "./diff";
+import WebContainerManager from "./webcontainer-manager";
+
+export interface EditorTab {
+  path: string;
+  // The buffer, and what was last read from or written to disk
+  content: string;
+  savedContent: string;
+  pinned: boolean;
+  // Binary files get a tab but can't be edited
+  binary: boolean;
+  // Picked in the editor header in place of the one detected from the file
+  language?: string;
+  // What's on disk now, when something else changed the file under unsaved edits
+  diskContent?: string;
+}
+
+export interface EditorPosition {
+  line: number;
+  column: number;
+}
+
+// Two versions of a file shown side by side in place of the editor
+export interface Comparison {
+  path: string;
+  // Shown above each side, e.g. "Cloned" and "Workspace"
+  originalLabel: string;
+  modifiedLabel: string;
+  original: string;
+  modified: string;
+}
+
+export interface EditorTabsState {
+  tabs: EditorTab[];
+  activePath: string | null;
+  // Where the editor should put the cursor next; cleared once it has
+  reveal: (EditorPosition & { path: string }) | null;
+  comparison: Comparison | null;
+}
+
+type StateListener = (state: EditorTabsState) => void;
+
+export const isDirty = (tab: EditorTab): boolean => tab.content !== tab.savedContent;
+
+export const hasDiskConflict = (tab: EditorTab): boolean => tab.diskContent !== undefined;
+
+// "mine" writes the buffer over the file, "theirs" drops the buffer for what's on disk
+export type ConflictResolution = "mine" | "theirs";
+
+// Pinned tabs stay in front of the others, each group keeping its own order
+const pinnedFirst = (tabs: EditorTab[]): EditorTab[] => [
+  ...tabs.filter((tab) => tab.pinned),
+  ...tabs.filter((tab) => !tab.pinned),
+];
+
+/**
+ * The files open in the editor. Buffers live here rather than in a component
+ * so that panels elsewhere (search, problems, the terminal) can open files
+ * and jump to a line, and so saves always go through WebContainerManager.
+ */
+export class EditorTabs {
+  private static state: EditorTabsState = { tabs: [], activePath: null, reveal: null, comparison: null };
+  private static listeners = new Set<StateListener>();
+  private static watchingDisk = false;
+
+  static getState(): EditorTabsState {
+    return this.state;
+  }
+
+  static getTab(path: string): EditorTab | null {
+    return this.state.tabs.find((tab) => tab.path === path) ?? null;
+  }
+
+  static subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  static async open(path: string, position?: EditorPosition): Promise<void> {
+    this.watchDisk();
+    if (!this.getTab(path)) {
+      const container = await WebContainerManager.getInstance();
+      const text = decodeText(await container.fs.readFile(path));
+      // Opened by someone else while we were reading
+      if (!this.getTab(path)) {
+        const tab: EditorTab = { path, content: text ?? "", savedContent: text ?? "", pinned: false, binary: text === null };
+        this.setState({ tabs: [...this.state.tabs, tab] });
+      }
+    }
+    this.setState({ activePath: path, reveal: position ? { path, ...position } : null, comparison: null });
+  }
+
+  /**
+   * Puts an edit made outside the file's editor, like a rename that reached
+   * into other files, into its tab without switching to it. The tab is left
+   * dirty for the user to save.
+   */
+  static async openEdited(path: string, content: string): Promise<void> {
+    this.watchDisk();
+    if (!this.getTab(path)) {
+      const container = await WebContainerManager.getInstance();
+      const text = decodeText(await container.fs.readFile(path)) ?? "";
+      if (!this.getTab(path)) {
+        const tab: EditorTab = { path, content, savedContent: text, pinned: false, binary: false };
+        this.setState({ tabs: [...this.state.tabs, tab] });
+        return;
+      }
+    }
+    this.update(path, content);
+  }
+
+  static activate(path: string): void {
+    this.setState({ activePath: path, comparison: null });
+  }
+
+  static compare(comparison: Comparison): void {
+    this.setState({ comparison });
+  }
+
+  static closeComparison(): void {
+    this.setState({ comparison: null });
+  }
+
+  static update(path: string, content: string): void {
+    this.updateTab(path, { content });
+  }
+
+  // Overrides the detected language for a tab; null goes back to detecting it
+  static setLanguage(path: string, language: string | null): void {
+    this.updateTab(path, { language: language ?? undefined });
+  }
+
+  /**
+   * Writes a tab's buffer to disk, unless the file changed there since it
+   * was opened or last saved; then the tab is marked as conflicting instead,
+   * for the user to settle with resolveConflict.
+   */
+  static async save(path: string): Promise<void> {
+    const tab = this.getTab(path);
+    if (!tab || tab.binary) return;
+
+    const content = tab.content;
+    if (!hasDiskConflict(tab)) {
+      await this.checkDisk(path);
+    }
+    if (hasDiskConflict(this.getTab(path) ?? tab)) {
+      console.warn(`⚠️ Not saving ${path}: it changed on disk`);
+      return;
+    }
+    await this.write(path, content);
+  }
+
+  static async resolveConflict(path: string, resolution: ConflictResolution): Promise<void> {
+    const tab = this.getTab(path);
+    if (!tab || tab.diskContent === undefined) return;
+
+    if (resolution === "mine") {
+      await this.write(path, tab.content);
+    } else {
+      this.updateTab(path, { content: tab.diskContent, savedContent: tab.diskContent, diskContent: undefined });
+      console.log(`🔄 Took the version of ${path} on disk`);
+    }
+    if (this.state.comparison?.path === path) {
+      this.closeComparison();
+    }
+  }
+
+  // Shows the conflicting disk version next to the buffer
+  static compareWithDisk(path: string): void {
+    const tab = this.getTab(path);
+    if (!tab || tab.diskContent === undefined) return;
+    this.compare({
+      path,
+      originalLabel: "On disk",
+      modifiedLabel: "Your changes",
+      original: tab.diskContent,
+      modified: tab.content,
+    });
+  }
+
+  static close(path: string): void {
+    const index = this.state.tabs.findIndex((tab) => tab.path === path);
+    if (index === -1) return;
+
+    const tabs = this.state.tabs.filter((tab) => tab.path !== path);
+    let activePath = this.state.activePath;
+    if (activePath === path) {
+      activePath = tabs[Math.min(index, tabs.length - 1)]?.path ?? null;
+    }
+    this.setState({ tabs, activePath });
+  }
+
+  static togglePin(path: string): void {
+    const tab = this.getTab(path);
+    if (!tab) return;
+    this.setState({
+      tabs: pinnedFirst(this.state.tabs.map((existing) => (existing === tab ? { ...tab, pinned: !tab.pinned } : existing))),
+    });
+  }
+
+  // Moves a tab to where another one is; tabs can't cross between pinned and unpinned
+  static move(path: string, targetPath: string): void {
+    const tabs = [...this.state.tabs];
+    const from = tabs.findIndex((tab) => tab.path === path);
+    const to = tabs.findIndex((tab) => tab.path === targetPath);
+    if (from === -1 || to === -1 || from === to) return;
+
+    const [tab] = tabs.splice(from, 1);
+    tabs.splice(to, 0, tab);
+    this.setState({ tabs: pinnedFirst(tabs) });
+  }
+
+  // Keeps tabs open on files inside a renamed or moved path
+  static renamePath(from: string, to: string): void {
+    const rename = (path: string): string =>
+      path === from || path.startsWith(`${from}/`) ? to + path.slice(from.length) : path;
+    this.setState({
+      tabs: this.state.tabs.map((tab) => ({ ...tab, path: rename(tab.path) })),
+      activePath: this.state.activePath && rename(this.state.activePath),
+      reveal: null,
+    });
+  }
+
+  // Closes the tabs of a deleted file, or of everything in a deleted directory
+  static closePath(path: string): void {
+    const affected = this.state.tabs.filter((tab) => tab.path === path || tab.path.startsWith(`${path}/`));
+    affected.forEach((tab) => this.close(tab.path));
+  }
+
+  static clearReveal(): void {
+    if (this.state.reveal) {
+      this.setState({ reveal: null });
+    }
+  }
+
+  private static async write(path: string, content: string): Promise<void> {
+    await WebContainerManager.writeFile(path, content);
+    // The buffer may have changed again while writing
+    this.updateTab(path, { savedContent: content, diskContent: undefined });
+    console.log(`💾 Saved ${path}`);
+  }
+
+  // Notices writes from elsewhere (the AI, a code generator, the terminal) to open files
+  private static watchDisk(): void {
+    if (this.watchingDisk) return;
+    this.watchingDisk = true;
+    WebContainerManager.watchFiles(async (paths) => {
+      for (const path of paths.filter((path) => this.getTab(path))) {
+        await this.checkDisk(path).catch((error) => console.error(`Failed to check ${path} on disk:`, error));
+      }
+    }).catch((error) => {
+      this.watchingDisk = false;
+      console.error("Failed to watch open files:", error);
+    });
+  }
+
+  /**
+   * Compares an open file with the disk. A clean buffer is reloaded; one with
+   * unsaved edits keeps them and is marked as conflicting. A file that's gone
+   * is left to whoever deleted it to close.
+   */
+  private static async checkDisk(path: string): Promise<void> {
+    const container = await WebContainerManager.getInstance();
+    let text: string | null;
+    try {
+      text = decodeText(await container.fs.readFile(path));
+    } catch {
+      return;
+    }
+    const tab = this.getTab(path);
+    if (!tab || tab.binary || text === null) return;
+
+    if (text === tab.savedContent || text === tab.content) {
+      // Our own save, the change undone, or the same edit made on both sides
+      if (hasDiskConflict(tab) || text !== tab.savedContent) {
+        this.updateTab(path, { savedContent: text, diskContent: undefined });
+      }
+    } else if (!isDirty(tab)) {
+      this.updateTab(path, { content: text, savedContent: text, diskContent: undefined });
+      console.log(`🔄 Reloaded ${path}: it changed on disk`);
+    } else if (text !== tab.diskContent) {
+      this.updateTab(path, { diskContent: text });
+      console.warn(`⚠️ ${path} changed on disk while it had unsaved changes`);
+    }
+  }
+
+  private static updateTab(path: string, changes: Partial<EditorTab>): void {
+    this.setState({
+      tabs: this.state.tabs.map((tab) => (tab.path === path ? { ...tab, ...changes } : tab)),
+    });
+  }
+
+  private static setState(changes: Partial<EditorTabsState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
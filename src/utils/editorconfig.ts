@@ -0,0 +1,107 @@
+import { parentPath } from "./file-tree";
+import { globToRegex } from "./ignore";
+import WebContainerManager from "./webcontainer-manager";
+
+// The .editorconfig settings the editor understands, for one file
+export interface EditorConfig {
+  indentStyle?: "space" | "tab";
+  indentSize?: number;
+  tabWidth?: number;
+  endOfLine?: "lf" | "crlf";
+}
+
+interface Section {
+  pattern: string;
+  properties: Record<string, string>;
+}
+
+interface ParsedEditorConfig {
+  root: boolean;
+  sections: Section[];
+}
+
+export function parseEditorConfig(text: string): ParsedEditorConfig {
+  const parsed: ParsedEditorConfig = { root: false, sections: [] };
+  let section: Section | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("#") || line.startsWith(";")) continue;
+
+    const header = /^\[(.*)\]$/.exec(line);
+    if (header) {
+      section = { pattern: header[1], properties: {} };
+      parsed.sections.push(section);
+      continue;
+    }
+    const separator = line.search(/[=:]/);
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim().toLowerCase();
+    if (section) {
+      section.properties[key] = value;
+    } else if (key === "root") {
+      parsed.root = value === "true";
+    }
+  }
+  return parsed;
+}
+
+// Patterns without a slash match the file name in any directory below the .editorconfig
+const sectionMatches = (pattern: string, relativePath: string): boolean =>
+  pattern.includes("/")
+    ? globToRegex(pattern.replace(/^\//, "")).test(relativePath)
+    : globToRegex(`**/${pattern}`).test(`/${relativePath}`);
+
+const toEditorConfig = (properties: Record<string, string>): EditorConfig => {
+  const config: EditorConfig = {};
+  if (properties.indent_style === "space" || properties.indent_style === "tab") {
+    config.indentStyle = properties.indent_style;
+  }
+  const tabWidth = Number(properties.tab_width);
+  const indentSize = properties.indent_size === "tab" ? tabWidth : Number(properties.indent_size);
+  if (indentSize > 0) config.indentSize = indentSize;
+  // tab_width defaults to indent_size
+  if (tabWidth > 0 || indentSize > 0) config.tabWidth = tabWidth > 0 ? tabWidth : indentSize;
+  if (properties.end_of_line === "lf" || properties.end_of_line === "crlf") {
+    config.endOfLine = properties.end_of_line;
+  }
+  return config;
+};
+
+/**
+ * The settings that apply to a file, from every .editorconfig between it and
+ * the nearest one marked `root = true`. Closer files and later sections win.
+ */
+export async function resolveEditorConfig(path: string): Promise<EditorConfig> {
+  const directories: string[] = [];
+  for (let directory = parentPath(path); ; directory = parentPath(directory)) {
+    directories.push(directory);
+    if (!directory) break;
+  }
+
+  // Nearest first while looking for the root, then applied outermost first
+  const configs: { directory: string; parsed: ParsedEditorConfig }[] = [];
+  for (const directory of directories) {
+    let text: string;
+    try {
+      text = await WebContainerManager.readFile(directory ? `${directory}/.editorconfig` : ".editorconfig");
+    } catch {
+      continue;
+    }
+    const parsed = parseEditorConfig(text);
+    configs.unshift({ directory, parsed });
+    if (parsed.root) break;
+  }
+
+  const properties: Record<string, string> = {};
+  for (const { directory, parsed } of configs) {
+    const relativePath = directory ? path.slice(directory.length + 1) : path;
+    for (const section of parsed.sections) {
+      if (sectionMatches(section.pattern, relativePath)) {
+        Object.assign(properties, section.properties);
+      }
+    }
+  }
+  return toEditorConfig(properties);
+}
@@ -0,0 +1,61 @@
+// The project's files as a tree, as shown in the file explorer
+
+export interface FileNode {
+  name: string;
+  type: "file" | "directory";
+  path: string;
+  children?: FileNode[];
+}
+
+// Directories first, then by name the way most editors list them
+export function sortFileNodes(nodes: FileNode[]): FileNode[] {
+  return nodes.sort((a, b) => {
+    if (a.type !== b.type) {
+      return a.type === "directory" ? -1 : 1;
+    }
+    return a.name.localeCompare(b.name, undefined, { sensitivity: "base", numeric: true });
+  });
+}
+
+export function fileName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+// The directory containing a path, "" for the project root
+export function parentPath(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index === -1 ? "" : path.slice(0, index);
+}
+
+export function joinPath(directory: string, name: string): string {
+  return directory ? `${directory}/${name}` : name;
+}
+
+export function findNode(nodes: FileNode[], path: string): FileNode | null {
+  for (const node of nodes) {
+    if (node.path === path) return node;
+    if (node.children && path.startsWith(`${node.path}/`)) {
+      return findNode(node.children, path);
+    }
+  }
+  return null;
+}
+
+// The paths of every file in the tree
+export function flattenFiles(nodes: FileNode[]): string[] {
+  return nodes.flatMap((node) => (node.type === "directory" ? flattenFiles(node.children ?? []) : [node.path]));
+}
+
+// A copy of the tree with one directory's children swapped out; "" is the root
+export function replaceChildren(nodes: FileNode[], directory: string, children: FileNode[]): FileNode[] {
+  if (!directory) return children;
+  return nodes.map((node) => {
+    if (node.path === directory) {
+      return { ...node, children };
+    }
+    if (node.children && directory.startsWith(`${node.path}/`)) {
+      return { ...node, children: replaceChildren(node.children, directory, children) };
+    }
+    return node;
+  });
+}
@@ -0,0 +1,60 @@
+import WebContainerManager from "./webcontainer-manager";
+
+// Scratch files for handing buffers to Prettier; under node_modules so
+// nothing watching the project notices them
+const SCRATCH_DIRECTORY = "node_modules/.cache/basebase-format";
+
+// Runs in the container with the project's own Prettier (2 or 3), so its
+// version, plugins, config, .prettierignore and .editorconfig all apply
+const PRETTIER_SCRIPT = `
+const fs = require("fs");
+const [input, output, filepath] = process.argv.slice(1);
+const write = (result) => fs.writeFileSync(output, JSON.stringify(result));
+(async () => {
+  const prettier = require("prettier");
+  const info = await prettier.getFileInfo(filepath, { ignorePath: ".prettierignore" });
+  if (info.ignored || !info.inferredParser) return write({ formatted: null });
+  const options = (await prettier.resolveConfig(filepath, { editorconfig: true })) || {};
+  write({ formatted: await prettier.format(fs.readFileSync(input, "utf8"), { ...options, filepath }) });
+})().catch((error) => write({ error: String((error && error.message) || error) }));
+`;
+
+let runs = 0;
+
+/**
+ * Formats a buffer with the Prettier installed in the project. Returns null
+ * when there's no Prettier, or it ignores or doesn't know the file, so the
+ * caller can fall back to another formatter; throws on syntax errors.
+ */
+export async function formatWithPrettier(path: string, content: string): Promise<string | null> {
+  if (!(await WebContainerManager.exists("node_modules/prettier/package.json"))) {
+    return null;
+  }
+
+  const container = await WebContainerManager.getInstance();
+  const run = ++runs;
+  const input = `${SCRATCH_DIRECTORY}/${run}.in`;
+  const output = `${SCRATCH_DIRECTORY}/${run}.json`;
+  await container.fs.mkdir(SCRATCH_DIRECTORY, { recursive: true });
+  await container.fs.writeFile(input, content);
+
+  try {
+    const process = await WebContainerManager.spawn("node", ["-e", PRETTIER_SCRIPT, input, output, path]);
+    // The registry keeps the output; this copy isn't read
+    process.output.cancel().catch(() => {});
+    const exitCode = await process.exit;
+    let result: { formatted?: string | null; error?: string };
+    try {
+      result = JSON.parse(await container.fs.readFile(output, "utf-8"));
+    } catch {
+      throw new Error(`Prettier exited with code ${exitCode}`);
+    }
+    if (result.error) {
+      throw new Error(result.error);
+    }
+    return result.formatted ?? null;
+  } finally {
+    await container.fs.rm(input, { force: true });
+    await container.fs.rm(output, { force: true });
+  }
+}
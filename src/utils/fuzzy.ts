@@ -0,0 +1,61 @@
+// Fuzzy matching for "go to file": the query's characters have to appear in
+// order, and matches that line up with the file name score higher
+
+export interface FuzzyMatch {
+  score: number;
+  // Indexes into the matched path, for highlighting
+  positions: number[];
+}
+
+const isBoundary = (path: string, index: number): boolean => {
+  if (index === 0) return true;
+  const previous = path[index - 1];
+  if (previous === "/" || previous === "." || previous === "-" || previous === "_" || previous === " ") {
+    return true;
+  }
+  // camelCase humps
+  return previous === previous.toLowerCase() && path[index] !== path[index].toLowerCase();
+};
+
+/**
+ * Scores how well a query matches a path, or returns null when it doesn't.
+ * The query is matched against the file name first, since that's what
+ * people usually type, then against the whole path.
+ */
+export function fuzzyMatch(query: string, path: string): FuzzyMatch | null {
+  const needle = query.replace(/\s+/g, "").toLowerCase();
+  if (!needle) return { score: 0, positions: [] };
+
+  const nameStart = path.lastIndexOf("/") + 1;
+  const inName = matchFrom(needle, path, nameStart);
+  if (inName) {
+    return { score: inName.score + 100, positions: inName.positions };
+  }
+  return matchFrom(needle, path, 0);
+}
+
+const matchFrom = (needle: string, path: string, start: number): FuzzyMatch | null => {
+  const haystack = path.toLowerCase();
+  const positions: number[] = [];
+  let score = 0;
+  let index = start;
+
+  for (const char of needle) {
+    const found = haystack.indexOf(char, index);
+    if (found === -1) return null;
+
+    if (positions.length > 0 && found === positions[positions.length - 1] + 1) {
+      score += 10;
+    } else if (isBoundary(path, found)) {
+      score += 8;
+    } else {
+      // Skipping characters costs a little
+      score -= Math.min(found - index, 5);
+    }
+    positions.push(found);
+    index = found + 1;
+  }
+
+  // Prefer shorter paths when everything else is equal
+  return { score: score - path.length / 100, positions };
+};
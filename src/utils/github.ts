@@ -0,0 +1,696 @@
+import type { Octokit } from "@octokit/rest";
+import type { DirectoryNode, FileSystemTree } from "@webcontainer/api";
+import { gunzip, parseTar } from "./tar";
+
+export interface RepoLocation {
+  owner: string;
+  repo: string;
+  // Branch, tag or SHA taken from a pasted "/tree/<ref>" or "/commit/<sha>" URL
+  ref?: string;
+}
+
+export interface RepoRef {
+  name: string;
+  type: "branch" | "tag" | "commit";
+  // Commit the workspace was cloned from; publishing compares against it to spot upstream changes
+  sha: string;
+  defaultBranch: string;
+}
+
+export interface PullRequestInfo {
+  number: number;
+  title: string;
+  body: string;
+  htmlUrl: string;
+  baseBranch: string;
+  // Where the PR's commits live, which is a fork for outside contributions
+  head: RepoLocation & { branch: string; sha: string };
+}
+
+export interface PullRequestSummary {
+  number: number;
+  title: string;
+  author: string;
+  headBranch: string;
+}
+
+export interface CommitFile {
+  path: string;
+  // Strings are uploaded as UTF-8 and bytes as base64; null deletes the file
+  content: string | Uint8Array | null;
+  // Where the file lived before it was moved, so the old path gets removed
+  previousPath?: string;
+}
+
+type TreeMode = "100644" | "100755" | "040000" | "160000" | "120000";
+
+interface TreeItem {
+  path: string;
+  mode: TreeMode;
+  type: "blob";
+  sha: string | null;
+}
+
+export interface RepositorySnapshot {
+  files: Map<string, string | Uint8Array>;
+  symlinks: Map<string, string>;
+  // SHA of the commit the snapshot was taken from, when the source reports it
+  commitSha: string | null;
+}
+
+// Labels and people that can be attached to a new pull request
+export interface PullRequestOptions {
+  viewer: string;
+  labels: string[];
+  assignableUsers: string[];
+}
+
+export interface PullRequestMetadata {
+  reviewers: string[];
+  teamReviewers: string[];
+  assignees: string[];
+  labels: string[];
+}
+
+// A file as it is upstream now; content is null when it was deleted there
+export interface UpstreamFile {
+  path: string;
+  content: Uint8Array | null;
+}
+
+export type CloneProgressCallback = (message: string) => void;
+
+// Where GitHub looks for a pull request template, in order
+export const PULL_REQUEST_TEMPLATE_PATHS = [
+  ".github/pull_request_template.md",
+  ".github/PULL_REQUEST_TEMPLATE.md",
+  "pull_request_template.md",
+  "PULL_REQUEST_TEMPLATE.md",
+  "docs/pull_request_template.md",
+  "docs/PULL_REQUEST_TEMPLATE.md",
+];
+
+const BINARY_FILE_PATTERN =
+  /\.(png|jpg|jpeg|gif|svg|ico|webp|avif|woff|woff2|ttf|eot|pdf|zip|tar|gz|mp4|mov|avi|mp3|wav)$/i;
+
+export function parseRepoUrl(repoUrl: string): RepoLocation {
+  const urlParts = repoUrl
+    .replace("https://github.com/", "")
+    .split("/")
+    .filter(Boolean);
+  if (urlParts.length < 2) {
+    throw new Error("Invalid repository URL format");
+  }
+  const location: RepoLocation = {
+    owner: urlParts[0],
+    repo: urlParts[1].replace(/\.git$/, ""),
+  };
+  if ((urlParts[2] === "tree" || urlParts[2] === "commit") && urlParts.length > 3) {
+    // Branch names may contain slashes, so keep everything after "tree/"
+    location.ref = decodeURIComponent(urlParts.slice(3).join("/"));
+  }
+  return location;
+}
+
+/**
+ * Resolves a branch, tag or commit SHA (or the default branch when no ref is
+ * given) to the commit it points at, so the clone and publish flows agree on
+ * exactly which commit the workspace started from.
+ */
+export async function resolveRepoRef(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation,
+  ref: string | undefined
+): Promise<RepoRef> {
+  const { data: repoData } = await octokit.repos.get({ owner, repo });
+  const defaultBranch = repoData.default_branch;
+  const name = ref || defaultBranch;
+
+  try {
+    const { data: branch } = await octokit.repos.getBranch({ owner, repo, branch: name });
+    return { name, type: "branch", sha: branch.commit.sha, defaultBranch };
+  } catch {
+    // Not a branch, try a tag or a commit next
+  }
+
+  let type: RepoRef["type"] = "commit";
+  try {
+    await octokit.git.getRef({ owner, repo, ref: `tags/${name}` });
+    type = "tag";
+  } catch {
+    // Not a tag either, treat it as a commit SHA
+  }
+
+  try {
+    const { data: commit } = await octokit.repos.getCommit({ owner, repo, ref: name });
+    return { name, type, sha: commit.sha, defaultBranch };
+  } catch {
+    throw new Error(`Could not find branch, tag or commit "${name}" in ${owner}/${repo}`);
+  }
+}
+
+export async function getPullRequest(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation,
+  pullNumber: number
+): Promise<PullRequestInfo> {
+  const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: pullNumber });
+  if (!pr.head.repo) {
+    throw new Error(`The branch of pull request #${pullNumber} no longer exists`);
+  }
+  return {
+    number: pr.number,
+    title: pr.title,
+    body: pr.body ?? "",
+    htmlUrl: pr.html_url,
+    baseBranch: pr.base.ref,
+    head: {
+      owner: pr.head.repo.owner.login,
+      repo: pr.head.repo.name,
+      branch: pr.head.ref,
+      sha: pr.head.sha,
+    },
+  };
+}
+
+export async function listOpenPullRequests(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation
+): Promise<PullRequestSummary[]> {
+  const { data: pulls } = await octokit.pulls.list({
+    owner,
+    repo,
+    state: "open",
+    sort: "updated",
+    direction: "desc",
+    per_page: 50,
+  });
+  return pulls.map((pr) => ({
+    number: pr.number,
+    title: pr.title,
+    author: pr.user?.login ?? "unknown",
+    headBranch: pr.head.ref,
+  }));
+}
+
+// The labels, assignees and signed-in user a new pull request can choose from
+export async function getPullRequestOptions(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation
+): Promise<PullRequestOptions> {
+  const [{ data: viewer }, labels, assignees] = await Promise.all([
+    octokit.users.getAuthenticated(),
+    octokit.paginate(octokit.issues.listLabelsForRepo, { owner, repo, per_page: 100 }),
+    octokit.paginate(octokit.issues.listAssignees, { owner, repo, per_page: 100 }),
+  ]);
+  return {
+    viewer: viewer.login,
+    labels: labels.map((label) => label.name),
+    assignableUsers: assignees.map((user) => user.login),
+  };
+}
+
+/**
+ * Requests reviewers and sets assignees and labels on a freshly created pull
+ * request. Only people with write access to the repository can do this.
+ */
+export async function applyPullRequestMetadata(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation,
+  pullNumber: number,
+  { reviewers, teamReviewers, assignees, labels }: PullRequestMetadata
+): Promise<void> {
+  if (reviewers.length > 0 || teamReviewers.length > 0) {
+    await octokit.pulls.requestReviewers({
+      owner,
+      repo,
+      pull_number: pullNumber,
+      reviewers,
+      team_reviewers: teamReviewers,
+    });
+  }
+  if (assignees.length > 0) {
+    await octokit.issues.addAssignees({ owner, repo, issue_number: pullNumber, assignees });
+  }
+  if (labels.length > 0) {
+    await octokit.issues.addLabels({ owner, repo, issue_number: pullNumber, labels });
+  }
+}
+
+const FORK_POLL_INTERVAL_MS = 2000;
+const FORK_READY_TIMEOUT_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function canPushTo(octokit: Octokit, { owner, repo }: RepoLocation): Promise<boolean> {
+  const { data } = await octokit.repos.get({ owner, repo });
+  return Boolean(data.permissions?.push);
+}
+
+/**
+ * Returns the authenticated user's fork of a repository, creating it if
+ * there isn't one yet. Fork names can differ from the upstream name when the
+ * user already owns a repository called the same.
+ */
+export async function ensureFork(
+  octokit: Octokit,
+  upstream: RepoLocation,
+  onProgress: (message: string) => void
+): Promise<RepoLocation> {
+  const upstreamName = `${upstream.owner}/${upstream.repo}`.toLowerCase();
+  const { data: user } = await octokit.users.getAuthenticated();
+
+  onProgress("Looking for an existing fork...");
+  try {
+    const { data: existing } = await octokit.repos.get({ owner: user.login, repo: upstream.repo });
+    if (existing.fork && existing.parent?.full_name.toLowerCase() === upstreamName) {
+      console.log("🍴 Reusing fork:", existing.full_name);
+      return { owner: existing.owner.login, repo: existing.name };
+    }
+  } catch {
+    // No repository with that name under the user's account
+  }
+
+  onProgress(`Forking ${upstream.owner}/${upstream.repo}...`);
+  const { data: fork } = await octokit.repos.createFork({ owner: upstream.owner, repo: upstream.repo });
+  console.log("🍴 Created fork:", fork.full_name);
+  return { owner: fork.owner.login, repo: fork.name };
+}
+
+/**
+ * Forking happens in the background on GitHub's side; wait until the fork
+ * can see the commit we're about to branch from.
+ */
+export async function waitForCommit(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation,
+  sha: string,
+  onProgress: (message: string) => void
+): Promise<void> {
+  const startedAt = Date.now();
+  for (;;) {
+    try {
+      await octokit.git.getCommit({ owner, repo, commit_sha: sha });
+      return;
+    } catch {
+      // Not there yet
+    }
+
+    const elapsedSeconds = Math.round((Date.now() - startedAt) / 1000);
+    if (Date.now() - startedAt > FORK_READY_TIMEOUT_MS) {
+      throw new Error(
+        `Fork ${owner}/${repo} still isn't ready after ${elapsedSeconds}s. Try publishing again in a few minutes.`
+      );
+    }
+    onProgress(`Waiting for fork ${owner}/${repo} to be ready (${elapsedSeconds}s)...`);
+    await sleep(FORK_POLL_INTERVAL_MS);
+  }
+}
+
+// GitHub lists at most this many files when comparing two commits
+const COMPARE_FILE_LIMIT = 300;
+
+const fromBase64 = (data: string): Uint8Array =>
+  Uint8Array.from(atob(data.replace(/\n/g, "")), (char) => char.charCodeAt(0));
+
+/**
+ * Finds which of the given paths changed between two commits (the one the
+ * workspace was cloned from and the branch head now) and returns their
+ * current contents.
+ */
+export async function getUpstreamChanges(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation,
+  baseSha: string,
+  headSha: string,
+  paths: string[]
+): Promise<UpstreamFile[]> {
+  if (baseSha === headSha) {
+    return [];
+  }
+
+  const { data: comparison } = await octokit.repos.compareCommits({
+    owner,
+    repo,
+    base: baseSha,
+    head: headSha,
+    per_page: COMPARE_FILE_LIMIT,
+  });
+  const changedFiles = comparison.files ?? [];
+  const upstream: UpstreamFile[] = [];
+
+  if (changedFiles.length < COMPARE_FILE_LIMIT) {
+    for (const path of paths) {
+      const file = changedFiles.find(
+        (candidate) => candidate.filename === path || candidate.previous_filename === path
+      );
+      if (!file) continue;
+      if (file.status === "removed" || file.filename !== path) {
+        upstream.push({ path, content: null });
+        continue;
+      }
+      const { data: blob } = await octokit.git.getBlob({ owner, repo, file_sha: file.sha });
+      upstream.push({ path, content: fromBase64(blob.content) });
+    }
+    return upstream;
+  }
+
+  // The file list is truncated, so check each path against both commits directly
+  const readAt = async (path: string, ref: string): Promise<string | null> => {
+    try {
+      const { data } = await octokit.repos.getContent({ owner, repo, path, ref });
+      return !Array.isArray(data) && data.type === "file" ? data.sha : null;
+    } catch {
+      return null;
+    }
+  };
+  for (const path of paths) {
+    const [baseBlob, headBlob] = await Promise.all([readAt(path, baseSha), readAt(path, headSha)]);
+    if (baseBlob === headBlob) continue;
+    if (!headBlob) {
+      upstream.push({ path, content: null });
+      continue;
+    }
+    const { data: blob } = await octokit.git.getBlob({ owner, repo, file_sha: headBlob });
+    upstream.push({ path, content: fromBase64(blob.content) });
+  }
+  return upstream;
+}
+
+const toBase64 = (data: Uint8Array): string => {
+  let binary = "";
+  // Chunked so large files don't overflow the argument limit of fromCharCode
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const parentDirectory = (path: string): string => path.split("/").slice(0, -1).join("/");
+
+// Modes of the given paths as they are in a commit's tree; paths missing from the tree are absent
+async function getTreeModes(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation,
+  commitSha: string,
+  paths: string[]
+): Promise<Map<string, TreeMode>> {
+  const modes = new Map<string, TreeMode>();
+  const { data } = await octokit.git.getTree({
+    owner,
+    repo,
+    tree_sha: commitSha,
+    recursive: "true",
+  });
+  for (const item of data.tree) {
+    if (item.path && item.mode) {
+      modes.set(item.path, item.mode as TreeMode);
+    }
+  }
+  if (!data.truncated) {
+    return modes;
+  }
+
+  // Very large repositories come back truncated; list just the directories we need
+  console.log("🌳 Tree listing truncated, fetching directories individually...");
+  for (const directory of new Set(paths.map(parentDirectory))) {
+    try {
+      const { data: directoryData } = await octokit.git.getTree({
+        owner,
+        repo,
+        tree_sha: directory ? `${commitSha}:${directory}` : commitSha,
+      });
+      for (const item of directoryData.tree) {
+        if (item.path && item.mode) {
+          const fullPath = directory ? `${directory}/${item.path}` : item.path;
+          modes.set(fullPath, item.mode as TreeMode);
+        }
+      }
+    } catch {
+      // The directory doesn't exist in this commit
+    }
+  }
+  return modes;
+}
+
+/**
+ * Creates a commit on top of `parentSha` containing the given files. Only
+ * creates git objects; moving a branch to the commit is up to the caller.
+ */
+export async function createCommitFromFiles(
+  octokit: Octokit,
+  location: RepoLocation,
+  parentSha: string,
+  files: CommitFile[],
+  message: string
+): Promise<string> {
+  const { owner, repo } = location;
+
+  // The parent tree tells us which paths exist and which files are executable
+  const modes = await getTreeModes(
+    octokit,
+    location,
+    parentSha,
+    files.flatMap(({ path, previousPath }) => (previousPath ? [path, previousPath] : [path]))
+  );
+
+  const treeItems: TreeItem[] = [];
+  const removePath = (path: string): void => {
+    // Removing a path the parent doesn't have makes GitHub reject the whole tree
+    const mode = modes.get(path);
+    if (mode) {
+      treeItems.push({ path, mode, type: "blob", sha: null });
+    }
+  };
+
+  console.log("📄 Creating blobs for changed files...");
+  for (const { path, content, previousPath } of files) {
+    if (previousPath) {
+      removePath(previousPath);
+    }
+    if (content === null) {
+      console.log("Deleting:", path);
+      removePath(path);
+      continue;
+    }
+
+    console.log("Creating blob for:", path);
+    const { data: blobData } = await octokit.git.createBlob({
+      owner,
+      repo,
+      ...(typeof content === "string"
+        ? { content, encoding: "utf-8" }
+        : { content: toBase64(content), encoding: "base64" }),
+    });
+
+    // Keep the exec bit of scripts, including ones that were moved
+    const originalMode = modes.get(path) ?? (previousPath ? modes.get(previousPath) : undefined);
+    treeItems.push({
+      path,
+      mode: originalMode === "100755" ? "100755" : "100644",
+      type: "blob",
+      sha: blobData.sha,
+    });
+  }
+
+  // Create new tree
+  console.log("🌳 Creating new tree...");
+  const { data: treeData } = await octokit.git.createTree({
+    owner,
+    repo,
+    base_tree: parentSha,
+    tree: treeItems,
+  });
+
+  // Create commit
+  console.log("💾 Creating commit...");
+  const { data: commitData } = await octokit.git.createCommit({
+    owner,
+    repo,
+    message,
+    tree: treeData.sha,
+    parents: [parentSha],
+  });
+
+  return commitData.sha;
+}
+
+export function formatRepoRef(repoRef: RepoRef): string {
+  return repoRef.type === "commit" ? repoRef.sha.slice(0, 7) : repoRef.name;
+}
+
+export function isBinaryPath(path: string): boolean {
+  return BINARY_FILE_PATTERN.test(path);
+}
+
+const decodeContents = (path: string, data: Uint8Array): string | Uint8Array => {
+  // Keep known binary formats as raw bytes, everything else is mounted as text
+  return isBinaryPath(path) ? data : new TextDecoder().decode(data);
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.round(bytes / 1024)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Downloads the repository as a single tarball and unpacks it in the browser.
+ * One API request instead of one per directory plus one per file.
+ */
+export async function downloadRepositoryArchive(
+  githubToken: string,
+  { owner, repo }: RepoLocation,
+  ref: string | undefined,
+  onProgress: CloneProgressCallback
+): Promise<RepositorySnapshot> {
+  const refSegment = ref ? `/${encodeURIComponent(ref)}` : "";
+  const url = `https://api.github.com/repos/${owner}/${repo}/tarball${refSegment}`;
+
+  onProgress("Downloading repository archive...");
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${githubToken}`,
+      Accept: "application/vnd.github+json",
+    },
+  });
+  if (!response.ok || !response.body) {
+    throw new Error(`Archive download failed with status ${response.status}`);
+  }
+
+  const totalBytes = Number(response.headers.get("content-length")) || 0;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let receivedBytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    receivedBytes += value.length;
+    onProgress(
+      totalBytes
+        ? `Downloading repository archive (${formatBytes(receivedBytes)} of ${formatBytes(totalBytes)})...`
+        : `Downloading repository archive (${formatBytes(receivedBytes)})...`
+    );
+  }
+
+  const compressed = new Uint8Array(receivedBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    compressed.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  onProgress("Extracting archive...");
+  const archive = parseTar(await gunzip(compressed));
+
+  const files = new Map<string, string | Uint8Array>();
+  const symlinks = new Map<string, string>();
+  for (const entry of archive.entries) {
+    // GitHub wraps everything in a single "<owner>-<repo>-<sha>/" folder
+    const path = entry.path.split("/").slice(1).join("/").replace(/\/$/, "");
+    if (!path) continue;
+
+    if (entry.type === "file") {
+      files.set(path, decodeContents(path, entry.data));
+    } else if (entry.type === "symlink" && entry.linkTarget) {
+      symlinks.set(path, entry.linkTarget);
+    }
+  }
+  onProgress(`Extracted ${files.size} files`);
+
+  return {
+    files,
+    symlinks,
+    commitSha: archive.globalHeaders.comment ?? null,
+  };
+}
+
+/**
+ * Walks the repository with the contents API, fetching each file separately.
+ * Slow and rate-limit heavy, only used when the archive cannot be downloaded.
+ */
+export async function fetchRepositoryContents(
+  octokit: Octokit,
+  { owner, repo }: RepoLocation,
+  ref: string | undefined,
+  onProgress: CloneProgressCallback
+): Promise<RepositorySnapshot> {
+  const files = new Map<string, string | Uint8Array>();
+
+  const fetchFile = async (path: string, downloadUrl: string): Promise<void> => {
+    const response = await fetch(downloadUrl);
+    if (isBinaryPath(path)) {
+      files.set(path, new Uint8Array(await response.arrayBuffer()));
+    } else {
+      files.set(path, await response.text());
+    }
+    onProgress(`Fetching files (${files.size})...`);
+  };
+
+  // Helper function to recursively get all files from a directory
+  const getDirectoryContents = async (path: string = ""): Promise<void> => {
+    try {
+      const { data: contents } = await octokit.repos.getContent({
+        owner,
+        repo,
+        path,
+        ...(ref ? { ref } : {}),
+      });
+
+      if (Array.isArray(contents)) {
+        for (const item of contents) {
+          if (item.type === "file" && item.download_url) {
+            await fetchFile(item.path, item.download_url);
+          } else if (item.type === "dir") {
+            // Recursively get contents of subdirectory
+            await getDirectoryContents(item.path);
+          }
+        }
+      } else if (contents.type === "file" && contents.download_url) {
+        await fetchFile(contents.path, contents.download_url);
+      }
+    } catch (error) {
+      console.warn(`Failed to get contents for path: ${path}`, error);
+    }
+  };
+
+  onProgress("Fetching files...");
+  await getDirectoryContents();
+
+  return { files, symlinks: new Map(), commitSha: null };
+}
+
+export function buildFileSystemTree(snapshot: RepositorySnapshot): FileSystemTree {
+  const fileSystemTree: FileSystemTree = {};
+
+  const getParentDirectory = (parts: string[]): FileSystemTree => {
+    let current = fileSystemTree;
+    for (const part of parts) {
+      if (!current[part]) {
+        current[part] = { directory: {} };
+      }
+      current = (current[part] as DirectoryNode).directory;
+    }
+    return current;
+  };
+
+  for (const [path, contents] of snapshot.files) {
+    const parts = path.split("/").filter((part) => part.length > 0);
+    const name = parts.pop();
+    if (name) {
+      getParentDirectory(parts)[name] = { file: { contents } };
+    }
+  }
+
+  for (const [path, target] of snapshot.symlinks) {
+    const parts = path.split("/").filter((part) => part.length > 0);
+    const name = parts.pop();
+    if (name) {
+      getParentDirectory(parts)[name] = { file: { symlink: target } };
+    }
+  }
+
+  return fileSystemTree;
+}
@@ -0,0 +1,97 @@
+// .gitignore handling shared by file listing, change tracking and the file tree
+
+export type IgnoreMatcher = (path: string) => boolean;
+
+// Never shown or tracked, whatever the repository's .gitignore says
+const ALWAYS_IGNORED = /(^|\/)(node_modules|\.git)(\/|$)/;
+
+export const isAlwaysIgnored = (path: string): boolean => ALWAYS_IGNORED.test(path);
+
+const DEFAULT_IGNORES = [
+  "node_modules",
+  "dist",
+  "build",
+  ".git",
+  ".DS_Store",
+  "*.log",
+  ".env",
+  ".env.local",
+  ".env.*.local",
+  "coverage",
+  ".nyc_output",
+  ".cache",
+];
+
+/**
+ * Converts one .gitignore-style pattern to a regex over repository-relative
+ * paths. Also used for CODEOWNERS, which shares the syntax.
+ */
+export function patternToRegex(pattern: string): RegExp {
+  const isDirectory = pattern.endsWith("/");
+  const body = isDirectory ? pattern.slice(0, -1) : pattern;
+  // A slash at the start or in the middle anchors the pattern to the root
+  const isAnchored = body.includes("/");
+
+  let regexPattern = body
+    .replace(/^\//, "")
+    .replace(/\./g, "\\.") // Escape dots
+    .replace(/\*\*/g, "DOUBLE_STAR") // Temporarily replace **
+    .replace(/\*/g, "[^/]*") // Single * matches anything except /
+    .replace(/DOUBLE_STAR/g, ".*") // ** matches anything including /
+    .replace(/\?/g, "[^/]") // ? matches single char except /
+    .replace(/^\.\*\//, "(.*/)?"); // A leading **/ matches no directories too
+
+  // Handle directory patterns (ending with /)
+  if (isDirectory) {
+    regexPattern += "(/.*)?";
+  }
+
+  return new RegExp(isAnchored ? `^${regexPattern}$` : `(^|.*/)${regexPattern}$`);
+}
+
+const parseGitignore = (gitignoreContent: string): RegExp[] => {
+  return gitignoreContent
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("#")) // Remove empty lines and comments
+    .map(patternToRegex);
+};
+
+const defaultPatterns = (): RegExp[] => {
+  return DEFAULT_IGNORES.map((pattern) => {
+    const regexPattern = pattern
+      .replace(/\./g, "\\.")
+      .replace(/\*\*/g, ".*")
+      .replace(/\*/g, "[^/]*")
+      .replace(/\?/g, "[^/]");
+    return new RegExp(`(^|.*/)${regexPattern}(/.*)?$`);
+  });
+};
+
+/**
+ * Builds a matcher from the contents of the repository's .gitignore, or from
+ * common defaults when there is none (pass null).
+ */
+export function createIgnoreMatcher(gitignoreContent: string | null): IgnoreMatcher {
+  const patterns =
+    gitignoreContent === null ? defaultPatterns() : parseGitignore(gitignoreContent);
+  return (path: string): boolean => patterns.some((pattern) => pattern.test(path));
+}
+
+// Globs for the file-pattern arguments used by listFiles and grepSearch, and .editorconfig sections
+export function globToRegex(glob: string): RegExp {
+  const regexString = glob
+    .replace(/\./g, "\\.") // Escape dots
+    .replace(/\*\*/g, "DOUBLE_STAR") // Temporarily replace **
+    .replace(/\*/g, "[^/]*") // Single * matches anything except /
+    .replace(/DOUBLE_STAR/g, ".*") // ** matches anything including /
+    .replace(/\?/g, "[^/]") // ? matches single char except /
+    .replace(/\{([^{}]*)\}/g, (_, alternatives: string) => `(${alternatives.split(",").join("|")})`); // {ts,tsx} matches either
+  return new RegExp(`^${regexString}$`);
+}
+
+// Whether the path or any directory above it is ignored
+export function isInIgnoredPath(shouldIgnore: IgnoreMatcher, path: string): boolean {
+  const parts = path.split("/");
+  return parts.some((_, index) => shouldIgnore(parts.slice(0, index + 1).join("/")));
+}
@@ -0,0 +1,59 @@
+// JSON with comments and trailing commas, as used by tsconfig.json and
+// editor settings files
+
+// The index just past the string literal that starts at `start`
+const skipString = (text: string, start: number): number => {
+  let index = start + 1;
+  while (index < text.length && text[index] !== '"') {
+    index += text[index] === "\\" ? 2 : 1;
+  }
+  return index + 1;
+};
+
+const stripComments = (text: string): string => {
+  let result = "";
+  let index = 0;
+  while (index < text.length) {
+    if (text[index] === '"') {
+      const end = skipString(text, index);
+      result += text.slice(index, end);
+      index = end;
+    } else if (text.startsWith("//", index)) {
+      const end = text.indexOf("\n", index);
+      index = end === -1 ? text.length : end;
+    } else if (text.startsWith("/*", index)) {
+      const end = text.indexOf("*/", index + 2);
+      index = end === -1 ? text.length : end + 2;
+    } else {
+      result += text[index];
+      index++;
+    }
+  }
+  return result;
+};
+
+// Whitespace then a closing bracket, matched at a given index
+const CLOSING_BRACKET = /\s*[}\]]/y;
+
+const stripTrailingCommas = (text: string): string => {
+  let result = "";
+  let index = 0;
+  while (index < text.length) {
+    if (text[index] === '"') {
+      const end = skipString(text, index);
+      result += text.slice(index, end);
+      index = end;
+      continue;
+    }
+    CLOSING_BRACKET.lastIndex = index + 1;
+    if (text[index] !== "," || !CLOSING_BRACKET.test(text)) {
+      result += text[index];
+    }
+    index++;
+  }
+  return result;
+};
+
+export function parseJsonc(text: string): unknown {
+  return JSON.parse(stripTrailingCommas(stripComments(text)));
+}
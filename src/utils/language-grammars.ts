@@ -0,0 +1,197 @@
+import type { languages } from "monaco-editor";
+
+// Monarch grammars for languages Monaco doesn't ship with
+
+interface Grammar {
+  tokenizer: languages.IMonarchLanguage;
+  configuration: languages.LanguageConfiguration;
+}
+
+const markupConfiguration: languages.LanguageConfiguration = {
+  wordPattern: /(-?\d*\.\d\w*)|([^`~!@$^&*()=+[{\]}\\|;:'",.<>/\s]+)/g,
+  comments: { blockComment: ["<!--", "-->"] },
+  brackets: [
+    ["<!--", "-->"],
+    ["<", ">"],
+    ["{", "}"],
+    ["(", ")"],
+    ["[", "]"],
+  ],
+  autoClosingPairs: [
+    { open: "{", close: "}" },
+    { open: "[", close: "]" },
+    { open: "(", close: ")" },
+    { open: '"', close: '"' },
+    { open: "'", close: "'" },
+    { open: "`", close: "`" },
+  ],
+  surroundingPairs: [
+    { open: '"', close: '"' },
+    { open: "'", close: "'" },
+    { open: "{", close: "}" },
+    { open: "[", close: "]" },
+    { open: "(", close: ")" },
+    { open: "<", close: ">" },
+  ],
+};
+
+// The attributes of a <script> or <style> tag; `lang` picks what its body is
+// written in, and the body is handed to that language until the closing tag
+const blockStates = (tag: "script" | "style", languagesByLang: Record<string, string>, fallback: string) => {
+  const attributes: languages.IMonarchLanguageRule[] = [
+    [/"[^"]*"|'[^']*'/, "attribute.value"],
+    [/[\w\-:@]+/, "attribute.name"],
+    [/=/, "delimiter"],
+    [/[ \t\r\n]+/, ""],
+    [new RegExp(`(<\\/)(${tag}\\s*)(>)`), ["delimiter", "tag", { token: "delimiter", next: "@pop" }]],
+  ];
+  const langRules: languages.IMonarchLanguageRule[] = Object.entries(languagesByLang).map(([lang, language]) => [
+    new RegExp(`(lang)(\\s*=\\s*)(["']?${lang}["']?)`),
+    ["attribute.name", "delimiter", { token: "attribute.value", switchTo: `@${tag}With.${language}` }],
+  ]);
+  return {
+    [tag]: [
+      ...langRules,
+      [/>/, { token: "delimiter", next: `@${tag}Body.${fallback}`, nextEmbedded: fallback }],
+      ...attributes,
+    ],
+    // $S2 is the language the body is written in
+    [`${tag}With`]: [[/>/, { token: "delimiter", next: `@${tag}Body.$S2`, nextEmbedded: "$S2" }], ...attributes],
+    [`${tag}Body`]: [
+      [new RegExp(`<\\/${tag}`), { token: "@rematch", next: "@pop", nextEmbedded: "@pop" }],
+      [/[^<]+/, ""],
+    ],
+  } as Record<string, languages.IMonarchLanguageRule[]>;
+};
+
+const SCRIPT_LANGS = { tsx: "typescript", ts: "typescript", typescript: "typescript", jsx: "javascript" };
+const STYLE_LANGS = { scss: "scss", less: "less", postcss: "css" };
+
+/**
+ * Markup with embedded scripts and styles, like a Vue or Svelte component.
+ * `expression` opens an embedded JavaScript expression in markup or an
+ * attribute, and `expressionEnd` closes it.
+ */
+const componentGrammar = (
+  tokenPostfix: string,
+  expression: languages.IMonarchLanguageRule[],
+  expressionEnd: RegExp
+): languages.IMonarchLanguage => ({
+  defaultToken: "",
+  tokenPostfix,
+  ignoreCase: true,
+  tokenizer: {
+    root: [
+      [/<!--/, "comment", "@comment"],
+      [/(<)(script)/, ["delimiter", { token: "tag", next: "@script" }]],
+      [/(<)(style)/, ["delimiter", { token: "tag", next: "@style" }]],
+      [/(<)([\w\-.:]+)/, ["delimiter", { token: "tag", next: "@tag" }]],
+      [/(<\/)([\w\-.:]+)/, ["delimiter", { token: "tag", next: "@tag" }]],
+      ...expression,
+      [expressionEnd, "delimiter.bracket"],
+      [/</, "delimiter"],
+      [/[^<{}]+/, ""],
+      [/[{}]/, ""],
+    ],
+    comment: [
+      [/-->/, "comment", "@pop"],
+      [/[^-]+/, "comment.content"],
+      [/./, "comment.content"],
+    ],
+    tag: [
+      [/\/?>/, "delimiter", "@pop"],
+      ...expression,
+      [expressionEnd, "delimiter.bracket"],
+      [/"[^"]*"|'[^']*'/, "attribute.value"],
+      [/[\w\-:@#.[\]]+/, "attribute.name"],
+      [/=/, "delimiter"],
+      [/[ \t\r\n]+/, ""],
+    ],
+    expression: [
+      [expressionEnd, { token: "@rematch", next: "@pop", nextEmbedded: "@pop" }],
+      [/[^}]+/, ""],
+      [/\}/, ""],
+    ],
+    ...blockStates("script", SCRIPT_LANGS, "javascript"),
+    ...blockStates("style", STYLE_LANGS, "css"),
+  },
+});
+
+// {{ expression }} in the template
+const vue: Grammar = {
+  configuration: markupConfiguration,
+  tokenizer: componentGrammar(
+    ".vue",
+    [[/\{\{/, { token: "delimiter.bracket", next: "@expression", nextEmbedded: "javascript" }]],
+    /\}\}/
+  ),
+};
+
+// {expression}, and blocks like {#if x}, {:else} and {/if}
+const svelte: Grammar = {
+  configuration: markupConfiguration,
+  tokenizer: componentGrammar(
+    ".svelte",
+    [
+      [/\{[#:/@]\w+/, { token: "keyword", next: "@expression", nextEmbedded: "javascript" }],
+      [/\{/, { token: "delimiter.bracket", next: "@expression", nextEmbedded: "javascript" }],
+    ],
+    /\}/
+  ),
+};
+
+const toml: Grammar = {
+  configuration: {
+    comments: { lineComment: "#" },
+    brackets: [
+      ["{", "}"],
+      ["[", "]"],
+    ],
+    autoClosingPairs: [
+      { open: "{", close: "}" },
+      { open: "[", close: "]" },
+      { open: '"', close: '"', notIn: ["string"] },
+      { open: "'", close: "'", notIn: ["string"] },
+    ],
+  },
+  tokenizer: {
+    defaultToken: "",
+    tokenPostfix: ".toml",
+    tokenizer: {
+      root: [
+        [/^\s*\[\[[^\]]*\]\]/, "type"],
+        [/^\s*\[[^\]]*\]/, "type"],
+        [/("(?:[^"\\]|\\.)*"|'[^']*'|[\w\-.]+)(\s*)(=)/, ["key", "", "delimiter"]],
+        { include: "@value" },
+      ],
+      value: [
+        [/#.*$/, "comment"],
+        [/"""/, "string", "@multilineString"],
+        [/'''/, "string", "@multilineLiteral"],
+        [/"(?:[^"\\]|\\.)*"/, "string"],
+        [/'[^']*'/, "string"],
+        [/\d{4}-\d{2}-\d{2}(?:[Tt ]\d{2}:\d{2}:\d{2}(?:\.\d+)?(?:[Zz]|[+-]\d{2}:\d{2})?)?/, "number"],
+        [/\d{2}:\d{2}:\d{2}(?:\.\d+)?/, "number"],
+        [/[+-]?(?:0x[\da-fA-F_]+|0o[0-7_]+|0b[01_]+)/, "number"],
+        [/[+-]?(?:inf|nan)\b/, "number"],
+        [/[+-]?\d[\d_]*(?:\.\d[\d_]*)?(?:[eE][+-]?\d+)?/, "number"],
+        [/\b(?:true|false)\b/, "keyword"],
+        [/[[\]{},=]/, "delimiter"],
+        [/\s+/, ""],
+      ],
+      multilineString: [
+        [/"""/, "string", "@pop"],
+        [/\\./, "string.escape"],
+        [/[^"\\]+/, "string"],
+        [/["\\]/, "string"],
+      ],
+      multilineLiteral: [
+        [/'''/, "string", "@pop"],
+        [/[^']+/, "string"],
+        [/'/, "string"],
+      ],
+    },
+  },
+};
+
+export const GRAMMARS: Record<string, Grammar> = { vue, svelte, toml };
@@ -0,0 +1,129 @@
+import type * as Monaco from "monaco-editor";
+import { GRAMMARS } from "./language-grammars";
+
+// Monaco language ids for the files opened in the editor
+
+export interface LanguageDefinition {
+  // Monaco's id for the language
+  id: string;
+  label: string;
+  // Lowercase, without the dot
+  extensions?: string[];
+  // Whole file names, like "Dockerfile" or ".env.local"
+  filenames?: RegExp;
+  // Interpreters named in a #! line, like "node" or "bash"
+  interpreters?: string[];
+}
+
+export const LANGUAGES: LanguageDefinition[] = [
+  { id: "typescript", label: "TypeScript", extensions: ["ts", "tsx", "mts", "cts"], interpreters: ["ts-node", "tsx"] },
+  { id: "javascript", label: "JavaScript", extensions: ["js", "jsx", "mjs", "cjs"], interpreters: ["node", "bun", "deno"] },
+  {
+    id: "json",
+    label: "JSON",
+    extensions: ["json", "jsonc", "json5", "webmanifest", "map"],
+    filenames: /^\.(?:prettierrc|eslintrc|babelrc|swcrc|stylelintrc)$/,
+  },
+  { id: "html", label: "HTML", extensions: ["html", "htm", "xhtml"] },
+  { id: "css", label: "CSS", extensions: ["css", "pcss", "postcss"] },
+  { id: "scss", label: "SCSS", extensions: ["scss", "sass"] },
+  { id: "less", label: "Less", extensions: ["less"] },
+  { id: "vue", label: "Vue", extensions: ["vue"] },
+  { id: "svelte", label: "Svelte", extensions: ["svelte"] },
+  { id: "markdown", label: "Markdown", extensions: ["md", "markdown", "mdown"] },
+  { id: "mdx", label: "MDX", extensions: ["mdx"] },
+  { id: "yaml", label: "YAML", extensions: ["yml", "yaml"], filenames: /^\.(?:yarnrc|clang-format)$/ },
+  { id: "toml", label: "TOML", extensions: ["toml"], filenames: /^(?:Cargo\.lock|Pipfile|poetry\.lock)$/ },
+  { id: "ini", label: "INI", extensions: ["ini", "cfg", "conf", "properties", "env"], filenames: /^(?:\.env(?:\..+)?|\.editorconfig|\.npmrc|\.gitconfig|\.gitmodules)$/ },
+  { id: "xml", label: "XML", extensions: ["xml", "svg", "xsd", "xsl", "plist"] },
+  { id: "graphql", label: "GraphQL", extensions: ["graphql", "gql", "graphqls"] },
+  { id: "sql", label: "SQL", extensions: ["sql"] },
+  {
+    id: "shell",
+    label: "Shell",
+    extensions: ["sh", "bash", "zsh"],
+    filenames: /^\.(?:bashrc|bash_profile|zshrc|profile)$/,
+    interpreters: ["sh", "bash", "zsh", "dash", "jsh"],
+  },
+  { id: "dockerfile", label: "Dockerfile", extensions: ["dockerfile"], filenames: /^(?:Dockerfile|Containerfile)(?:\..+)?$/ },
+  { id: "python", label: "Python", extensions: ["py", "pyi"], interpreters: ["python"] },
+  { id: "ruby", label: "Ruby", extensions: ["rb"], filenames: /^(?:Gemfile|Rakefile)$/, interpreters: ["ruby"] },
+  { id: "perl", label: "Perl", extensions: ["pl", "pm"], interpreters: ["perl"] },
+  { id: "php", label: "PHP", extensions: ["php"], interpreters: ["php"] },
+  { id: "go", label: "Go", extensions: ["go"] },
+  { id: "rust", label: "Rust", extensions: ["rs"] },
+  { id: "java", label: "Java", extensions: ["java"] },
+  { id: "kotlin", label: "Kotlin", extensions: ["kt", "kts"] },
+  { id: "c", label: "C", extensions: ["c", "h"] },
+  { id: "cpp", label: "C++", extensions: ["cpp", "cc", "cxx", "hpp", "hh"] },
+  { id: "csharp", label: "C#", extensions: ["cs"] },
+  { id: "swift", label: "Swift", extensions: ["swift"] },
+  { id: "lua", label: "Lua", extensions: ["lua"] },
+  { id: "handlebars", label: "Handlebars", extensions: ["hbs", "handlebars"] },
+  { id: "pug", label: "Pug", extensions: ["pug"] },
+  { id: "proto", label: "Protocol Buffers", extensions: ["proto"] },
+  { id: "bat", label: "Batch", extensions: ["bat", "cmd"] },
+  { id: "powershell", label: "PowerShell", extensions: ["ps1", "psm1"] },
+  { id: "plaintext", label: "Plain Text", extensions: ["txt"] },
+];
+
+const byExtension = new Map(
+  LANGUAGES.flatMap((language) => (language.extensions ?? []).map((extension) => [extension, language.id] as const))
+);
+
+const byInterpreter = new Map(
+  LANGUAGES.flatMap((language) => (language.interpreters ?? []).map((interpreter) => [interpreter, language.id] as const))
+);
+
+// "#!/usr/bin/env node", "#!/bin/bash -e" and "#!/usr/bin/env -S deno run" all name an interpreter
+const interpreterOf = (content: string): string | null => {
+  const shebang = /^#!\s*(\S+)(.*)$/.exec(content.split("\n", 1)[0]);
+  if (!shebang) return null;
+  const program = shebang[1].split("/").pop() ?? "";
+  const name = program === "env" ? shebang[2].trim().split(/\s+/).find((arg) => !arg.startsWith("-")) : program;
+  // python3.12 -> python, node18 -> node
+  return name?.replace(/[\d.]+$/, "") || null;
+};
+
+/**
+ * The language a file is written in: by its name, then its extension, then
+ * the interpreter in its #! line when the content is given. Unknown files are
+ * plain text.
+ */
+export function languageForPath(path: string, content?: string): string {
+  const name = path.split("/").pop() ?? path;
+  const byName = LANGUAGES.find((language) => language.filenames?.test(name));
+  if (byName) return byName.id;
+
+  const dot = name.lastIndexOf(".");
+  const extension = dot > 0 ? name.slice(dot + 1).toLowerCase() : null;
+  const byExt = extension && byExtension.get(extension);
+  if (byExt) return byExt;
+
+  const interpreter = content !== undefined && interpreterOf(content);
+  return (interpreter && byInterpreter.get(interpreter)) || "plaintext";
+}
+
+export const languageLabel = (id: string): string =>
+  LANGUAGES.find((language) => language.id === id)?.label ?? id;
+
+let registered = false;
+
+// Adds the languages Monaco doesn't have a grammar for; safe to call more than once
+export function registerLanguages(monaco: typeof Monaco): void {
+  if (registered) return;
+  registered = true;
+
+  const known = new Set(monaco.languages.getLanguages().map((language) => language.id));
+  for (const [id, grammar] of Object.entries(GRAMMARS)) {
+    if (known.has(id)) continue;
+    const definition = LANGUAGES.find((language) => language.id === id);
+    monaco.languages.register({
+      id,
+      aliases: definition ? [definition.label, id] : [id],
+      extensions: definition?.extensions?.map((extension) => `.${extension}`),
+    });
+    monaco.languages.setMonarchTokensProvider(id, grammar.tokenizer);
+    monaco.languages.setLanguageConfiguration(id, grammar.configuration);
+  }
+}
@@ -0,0 +1,110 @@
+// Three-way merges of workspace files against changes made upstream since the clone
+
+import { computeHunks, splitLines } from "./diff";
+
+export type MergeChunk =
+  | { type: "resolved"; lines: string[] }
+  | { type: "conflict"; base: string[]; ours: string[]; theirs: string[] };
+
+interface EditRegion {
+  side: "ours" | "theirs";
+  // Range of base lines replaced, end exclusive
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+const editRegions = (base: string, other: string, side: EditRegion["side"]): EditRegion[] =>
+  computeHunks(base, other, 0).map((hunk) => ({
+    side,
+    start: hunk.oldStart,
+    end: hunk.oldStart + hunk.oldLines,
+    lines: hunk.lines.filter((line) => line.type !== "remove").map((line) => line.text),
+  }));
+
+// One side's version of base[start, end) with its edits applied
+const applyRegions = (baseLines: string[], regions: EditRegion[], start: number, end: number): string[] => {
+  const output: string[] = [];
+  let position = start;
+  for (const region of regions) {
+    output.push(...baseLines.slice(position, region.start), ...region.lines);
+    position = region.end;
+  }
+  output.push(...baseLines.slice(position, end));
+  return output;
+};
+
+const sameLines = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Merges two descendants of a common base line by line. Edits that touch or
+ * overlap the same base lines are only combined automatically when both
+ * sides made the identical change; otherwise they become a conflict chunk.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeChunk[] {
+  const baseLines = splitLines(base);
+  const regions = [...editRegions(base, ours, "ours"), ...editRegions(base, theirs, "theirs")].sort(
+    (a, b) => a.start - b.start || a.end - b.end
+  );
+
+  const chunks: MergeChunk[] = [];
+  const pushResolved = (lines: string[]): void => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "resolved") {
+      last.lines.push(...lines);
+    } else {
+      chunks.push({ type: "resolved", lines: [...lines] });
+    }
+  };
+
+  let position = 0;
+  let index = 0;
+  while (index < regions.length) {
+    const group = [regions[index]];
+    const start = regions[index].start;
+    let end = regions[index].end;
+    index++;
+    while (index < regions.length && regions[index].start <= end) {
+      end = Math.max(end, regions[index].end);
+      group.push(regions[index]);
+      index++;
+    }
+
+    pushResolved(baseLines.slice(position, start));
+
+    const oursRegions = group.filter((region) => region.side === "ours");
+    const theirsRegions = group.filter((region) => region.side === "theirs");
+    const oursLines = applyRegions(baseLines, oursRegions, start, end);
+    const theirsLines = applyRegions(baseLines, theirsRegions, start, end);
+
+    if (theirsRegions.length === 0 || sameLines(oursLines, theirsLines)) {
+      pushResolved(oursLines);
+    } else if (oursRegions.length === 0) {
+      pushResolved(theirsLines);
+    } else {
+      chunks.push({ type: "conflict", base: baseLines.slice(start, end), ours: oursLines, theirs: theirsLines });
+    }
+    position = end;
+  }
+  pushResolved(baseLines.slice(position));
+
+  return chunks;
+}
+
+export function hasConflicts(chunks: MergeChunk[]): boolean {
+  return chunks.some((chunk) => chunk.type === "conflict");
+}
+
+/**
+ * Joins merge chunks back into text; conflicts take the lines chosen for
+ * them, keyed by the chunk's index.
+ */
+export function joinMergeChunks(chunks: MergeChunk[], resolutions: Map<number, string[]>): string {
+  return chunks
+    .map((chunk, index) =>
+      chunk.type === "resolved" ? chunk.lines.join("") : (resolutions.get(index) ?? chunk.ours).join("")
+    )
+    .join("");
+}
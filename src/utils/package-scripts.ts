@@ -0,0 +1,112 @@
+import { flattenFiles, parentPath } from "./file-tree";
+import { globToRegex } from "./ignore";
+import WebContainerManager from "./webcontainer-manager";
+
+// The preview script picked for each project, by project key
+const PREVIEW_SCRIPTS_KEY = "basebase_preview_scripts";
+// Tried in order when no preview script has been picked
+const DEFAULT_PREVIEW_SCRIPTS = ["dev", "start", "serve", "preview"];
+
+export interface PackageScripts {
+  // The package's directory, "" for the root
+  directory: string;
+  name: string;
+  scripts: Record<string, string>;
+}
+
+// A script in one of the project's packages
+export interface ScriptRef {
+  directory: string;
+  script: string;
+}
+
+interface PackageJson {
+  name?: string;
+  scripts?: Record<string, string>;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+const readPackageJson = async (path: string): Promise<PackageJson | null> => {
+  try {
+    return JSON.parse(await WebContainerManager.readFile(path)) as PackageJson;
+  } catch {
+    return null;
+  }
+};
+
+// The "scripts" of a package.json; none when it's missing or doesn't parse
+export async function readScripts(packagePath = "package.json"): Promise<Record<string, string>> {
+  return (await readPackageJson(packagePath))?.scripts ?? {};
+}
+
+/**
+ * The root package and every workspace package it declares (npm and Yarn
+ * "workspaces", as an array or under "packages"), each with its scripts.
+ */
+export async function findPackages(): Promise<PackageScripts[]> {
+  const root = await readPackageJson("package.json");
+  if (!root) return [];
+  const packages: PackageScripts[] = [{ directory: "", name: root.name ?? "(root)", scripts: root.scripts ?? {} }];
+
+  const patterns = (Array.isArray(root.workspaces) ? root.workspaces : root.workspaces?.packages) ?? [];
+  const toRegex = (pattern: string): RegExp => globToRegex(pattern.replace(/^\.?\//, "").replace(/\/$/, ""));
+  const included = patterns.filter((pattern) => !pattern.startsWith("!")).map(toRegex);
+  const excluded = patterns.filter((pattern) => pattern.startsWith("!")).map((pattern) => toRegex(pattern.slice(1)));
+  if (included.length === 0) return packages;
+
+  const directories = flattenFiles(await WebContainerManager.getFileTree())
+    .filter((path) => path.endsWith("/package.json"))
+    .map(parentPath)
+    .filter((directory) => included.some((glob) => glob.test(directory)) && !excluded.some((glob) => glob.test(directory)))
+    .sort();
+  for (const directory of directories) {
+    const pkg = await readPackageJson(`${directory}/package.json`);
+    if (pkg) {
+      packages.push({ directory, name: pkg.name ?? directory, scripts: pkg.scripts ?? {} });
+    }
+  }
+  return packages;
+}
+
+// Splits arguments the way a shell would, keeping quoted ones together
+export function splitArgs(text: string): string[] {
+  const args: string[] = [];
+  for (const match of text.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'|(\S+)/g)) {
+    args.push(match[1] !== undefined ? match[1].replace(/\\(.)/g, "$1") : (match[2] ?? match[3]));
+  }
+  return args;
+}
+
+// npm's arguments for running a script, with extra arguments passed on to it
+export const scriptArgs = (script: string, extraArgs: string[] = []): string[] =>
+  extraArgs.length > 0 ? ["run", script, "--", ...extraArgs] : ["run", script];
+
+export const describeScript = (ref: ScriptRef): string => (ref.directory ? `${ref.directory}: ${ref.script}` : ref.script);
+
+const readPreviewScripts = (): Record<string, ScriptRef> => {
+  try {
+    return JSON.parse(localStorage.getItem(PREVIEW_SCRIPTS_KEY) ?? "{}") as Record<string, ScriptRef>;
+  } catch {
+    return {};
+  }
+};
+
+export function savePreviewScript(projectKey: string, ref: ScriptRef): void {
+  localStorage.setItem(PREVIEW_SCRIPTS_KEY, JSON.stringify({ ...readPreviewScripts(), [projectKey]: ref }));
+}
+
+/**
+ * The script that serves the preview: the one picked for the project while
+ * it still exists, otherwise the first of dev, start, serve and preview in
+ * the root package.json. Null when there's none of those.
+ */
+export async function resolvePreviewScript(projectKey: string): Promise<ScriptRef | null> {
+  const saved = readPreviewScripts()[projectKey];
+  if (saved) {
+    const scripts = await readScripts(saved.directory ? `${saved.directory}/package.json` : "package.json");
+    if (saved.script in scripts) return saved;
+  }
+  const rootScripts = await readScripts();
+  const script = DEFAULT_PREVIEW_SCRIPTS.find((name) => name in rootScripts);
+  return script ? { directory: "", script } : null;
+}
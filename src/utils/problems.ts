@@ -0,0 +1,421 @@
+import type * as Monaco from "monaco-editor";
+import type { WebContainerProcess } from "@webcontainer/api";
+import { parseJsonc } from "./jsonc";
+import WebContainerManager from "./webcontainer-manager";
+
+export type ProblemSource = "tsc" | "eslint";
+export type ProblemSeverity = "error" | "warning" | "info";
+
+export interface Problem {
+  source: ProblemSource;
+  // Repository-relative; "" for problems with the project as a whole
+  path: string;
+  line: number;
+  column: number;
+  // Same as the start when the checker only reports a position
+  endLine: number;
+  endColumn: number;
+  severity: ProblemSeverity;
+  message: string;
+  // The TypeScript error code or the ESLint rule
+  code: string | null;
+}
+
+export interface ProblemsState {
+  problems: Problem[];
+  // Checkers with a run in progress
+  running: ProblemSource[];
+  watching: boolean;
+  // Why a checker couldn't run, e.g. it isn't installed
+  unavailable: Partial<Record<ProblemSource, string>>;
+  checkedAt: number | null;
+}
+
+type StateListener = (state: ProblemsState) => void;
+
+const SOURCES: ProblemSource[] = ["tsc", "eslint"];
+const WATCH_KEY = "basebase_problems_watch";
+const LINTED_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs|vue|svelte)$/i;
+const ESLINT_CONFIG = /^(eslint\.config\.[cm]?[jt]s|\.eslintrc(\.\w+)?)$/;
+// How many problems the AI assistant gets told about
+const MAX_DESCRIBED_PROBLEMS = 50;
+
+// "src/App.tsx(12,5): error TS2322: Type ..." as printed with --pretty false
+const TSC_DIAGNOSTIC = /^(.+?)\((\d+),(\d+)\): (error|warning|message) (TS\d+): (.*)$/;
+const TSC_GLOBAL_DIAGNOSTIC = /^(error|warning|message) (TS\d+): (.*)$/;
+// Watch mode's status lines, e.g. "10:04:12 AM - Found 2 errors. Watching for file changes."
+const TSC_WATCH_STARTED = /(Starting compilation|File change detected)/;
+const TSC_WATCH_FINISHED = /Found \d+ errors?\b/;
+
+const TSC_SEVERITIES: Record<string, ProblemSeverity> = { error: "error", warning: "warning", message: "info" };
+
+interface EslintFileResult {
+  filePath: string;
+  messages: {
+    ruleId: string | null;
+    severity: number;
+    message: string;
+    line?: number;
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+  }[];
+}
+
+export function parseTscOutput(output: string): Problem[] {
+  const problems: Problem[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = TSC_DIAGNOSTIC.exec(line);
+    const global = match ? null : TSC_GLOBAL_DIAGNOSTIC.exec(line);
+    if (match) {
+      const [, path, lineNumber, column, severity, code, message] = match;
+      problems.push({
+        source: "tsc",
+        path: path.replace(/^\.\//, ""),
+        line: Number(lineNumber),
+        column: Number(column),
+        endLine: Number(lineNumber),
+        endColumn: Number(column),
+        severity: TSC_SEVERITIES[severity],
+        message,
+        code,
+      });
+    } else if (global) {
+      const [, severity, code, message] = global;
+      problems.push({ source: "tsc", path: "", line: 1, column: 1, endLine: 1, endColumn: 1, severity: TSC_SEVERITIES[severity], message, code });
+    } else if (/^\s+\S/.test(line) && problems.length > 0) {
+      // The rest of a chained message ("Type 'x' is not assignable... \n  Property 'y' is missing")
+      problems[problems.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+  return problems;
+}
+
+/**
+ * Reads `eslint -f json` output. npx and ESLint itself can print warnings
+ * around the JSON, so only the array is parsed.
+ */
+export function parseEslintOutput(output: string, workdir: string): Problem[] {
+  const start = output.indexOf("[");
+  const end = output.lastIndexOf("]");
+  if (start === -1 || end < start) {
+    throw new Error(output.trim() || "ESLint printed nothing");
+  }
+
+  let results: EslintFileResult[];
+  try {
+    results = JSON.parse(output.slice(start, end + 1)) as EslintFileResult[];
+  } catch {
+    throw new Error(output.trim());
+  }
+
+  return results.flatMap((result) => {
+    const path = result.filePath.startsWith(`${workdir}/`) ? result.filePath.slice(workdir.length + 1) : result.filePath;
+    return result.messages
+      // Files the project's config ignores come back with a warning saying so
+      .filter((message) => message.ruleId !== null || !message.message.startsWith("File ignored"))
+      .map((message): Problem => {
+        const line = message.line ?? 1;
+        const column = message.column ?? 1;
+        return {
+          source: "eslint",
+          path,
+          line,
+          column,
+          endLine: message.endLine ?? line,
+          endColumn: message.endColumn ?? column,
+          severity: message.severity === 2 ? "error" : "warning",
+          message: message.message,
+          code: message.ruleId,
+        };
+      });
+  });
+}
+
+const byLocation = (a: Problem, b: Problem): number =>
+  a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column;
+
+/**
+ * Runs the project's own type checker and linter in the container, either on
+ * demand or continuously (`tsc --watch`, and ESLint again on every changed
+ * file), and collects what they report for the Problems panel, the editor's
+ * markers and the AI assistant.
+ */
+export class ProblemChecker {
+  private static state: ProblemsState = {
+    problems: [],
+    running: [],
+    watching: false,
+    unavailable: {},
+    checkedAt: null,
+  };
+  private static listeners = new Set<StateListener>();
+  private static markersMonaco: typeof Monaco | null = null;
+  private static tscWatchProcess: WebContainerProcess | null = null;
+  private static stopWatchingFiles: (() => void) | null = null;
+  // ESLint runs in watch mode queue up behind each other
+  private static lintTasks: Promise<void> = Promise.resolve();
+
+  static getState(): ProblemsState {
+    return this.state;
+  }
+
+  static subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Watch mode is remembered between sessions
+  static isWatchPreferred(): boolean {
+    return localStorage.getItem(WATCH_KEY) === "true";
+  }
+
+  // Runs both checkers once
+  static async check(): Promise<void> {
+    await Promise.all([this.watchOrRunTsc(false), this.runEslint()]);
+    this.setState({ checkedAt: Date.now() });
+  }
+
+  static async setWatching(watching: boolean): Promise<void> {
+    localStorage.setItem(WATCH_KEY, String(watching));
+    if (watching === this.state.watching) return;
+    this.setState({ watching });
+
+    if (!watching) {
+      this.tscWatchProcess?.kill();
+      this.tscWatchProcess = null;
+      this.stopWatchingFiles?.();
+      this.stopWatchingFiles = null;
+      return;
+    }
+
+    const stopWatchingFiles = await WebContainerManager.watchFiles((paths) => {
+      if (paths.some((path) => ESLINT_CONFIG.test(path))) {
+        this.lintTasks = this.lintTasks.then(() => this.runEslint());
+        return;
+      }
+      const linted = paths.filter((path) => LINTED_FILE.test(path));
+      if (linted.length > 0) {
+        this.lintTasks = this.lintTasks.then(() => this.runEslint(linted));
+      }
+    });
+    // Turned off again while the watcher was starting
+    if (!this.state.watching) {
+      stopWatchingFiles();
+      return;
+    }
+    this.stopWatchingFiles = stopWatchingFiles;
+    await Promise.all([this.watchOrRunTsc(true), this.runEslint()]);
+    this.setState({ checkedAt: Date.now() });
+  }
+
+  /**
+   * A summary for the AI assistant's prompt: one problem per line as
+   * "path:line:column severity [code] message".
+   */
+  static describe(): string {
+    const { problems, checkedAt } = this.state;
+    if (checkedAt === null) return "Not checked yet";
+    if (problems.length === 0) return "None";
+
+    const lines = problems
+      .slice(0, MAX_DESCRIBED_PROBLEMS)
+      .map((problem) =>
+        `${problem.path || "(project)"}:${problem.line}:${problem.column} ${problem.severity}` +
+        `${problem.code ? ` [${problem.code}]` : ""} ${problem.message.replace(/\n/g, " ")}`
+      );
+    if (problems.length > MAX_DESCRIBED_PROBLEMS) {
+      lines.push(`... and ${problems.length - MAX_DESCRIBED_PROBLEMS} more`);
+    }
+    return `\n${lines.join("\n")}`;
+  }
+
+  /**
+   * Shows the problems as markers in the files Monaco has open, including
+   * ones opened later. Only the first call does anything.
+   */
+  static showMarkers(monaco: typeof Monaco): void {
+    if (this.markersMonaco) return;
+    this.markersMonaco = monaco;
+    this.subscribe(() => monaco.editor.getModels().forEach((model) => this.applyMarkers(model)));
+    monaco.editor.onDidCreateModel((model) => this.applyMarkers(model));
+  }
+
+  private static applyMarkers(model: Monaco.editor.ITextModel): void {
+    const monaco = this.markersMonaco;
+    if (!monaco || model.uri.scheme !== "file") return;
+
+    const path = model.uri.path.slice(1);
+    const severities: Record<ProblemSeverity, Monaco.MarkerSeverity> = {
+      error: monaco.MarkerSeverity.Error,
+      warning: monaco.MarkerSeverity.Warning,
+      info: monaco.MarkerSeverity.Info,
+    };
+    for (const source of SOURCES) {
+      const markers = this.state.problems
+        .filter((problem) => problem.source === source && problem.path === path)
+        .map((problem): Monaco.editor.IMarkerData => {
+          let endColumn = problem.endColumn;
+          // A bare position underlines the word there
+          if (problem.endLine === problem.line && endColumn === problem.column && problem.line <= model.getLineCount()) {
+            endColumn = model.getWordAtPosition({ lineNumber: problem.line, column: problem.column })?.endColumn ?? endColumn + 1;
+          }
+          return {
+            severity: severities[problem.severity],
+            message: problem.message,
+            code: problem.code ?? undefined,
+            source,
+            startLineNumber: problem.line,
+            startColumn: problem.column,
+            endLineNumber: problem.endLine,
+            endColumn,
+          };
+        });
+      monaco.editor.setModelMarkers(model, source, markers);
+    }
+  }
+
+  private static async tscArgs(): Promise<string[] | null> {
+    if (!(await WebContainerManager.exists("tsconfig.json"))) {
+      this.setUnavailable("tsc", "No tsconfig.json in the project");
+      return null;
+    }
+    if (!(await WebContainerManager.exists("node_modules/.bin/tsc"))) {
+      this.setUnavailable("tsc", "TypeScript isn't installed in the project");
+      return null;
+    }
+    this.setUnavailable("tsc", null);
+
+    // Solution-style configs (like Vite's) check nothing themselves; build mode
+    // checks the projects they reference, which set noEmit on their own
+    let config: { files?: string[]; references?: unknown[] } = {};
+    try {
+      config = parseJsonc(await WebContainerManager.readFile("tsconfig.json")) as typeof config;
+    } catch {
+      // tsc reports a broken tsconfig better than we could
+    }
+    const isSolution = (config.references?.length ?? 0) > 0 && config.files?.length === 0;
+    return isSolution ? ["tsc", "-b", "--pretty", "false"] : ["tsc", "--noEmit", "--pretty", "false"];
+  }
+
+  private static async watchOrRunTsc(watch: boolean): Promise<void> {
+    const args = await this.tscArgs();
+    if (!args) {
+      this.replaceProblems("tsc", []);
+      return;
+    }
+
+    this.setRunning("tsc", true);
+    if (!watch) {
+      try {
+        this.replaceProblems("tsc", parseTscOutput(await WebContainerManager.runCommand("npx", args)));
+      } finally {
+        this.setRunning("tsc", false);
+      }
+      return;
+    }
+
+    const process = await WebContainerManager.spawn("npx", [...args, "--watch", "--preserveWatchOutput"]);
+    if (!this.state.watching) {
+      process.kill();
+      this.setRunning("tsc", false);
+      return;
+    }
+    this.tscWatchProcess = process;
+    console.log("👀 Type checking in watch mode");
+
+    // Each compilation prints its diagnostics between two status lines
+    let pending = "";
+    let compilation: string[] = [];
+    process.output.pipeTo(
+      new WritableStream({
+        write: (chunk) => {
+          const lines = (pending + chunk).split(/\r?\n/);
+          pending = lines.pop() ?? "";
+          for (const line of lines) {
+            if (TSC_WATCH_STARTED.test(line)) {
+              compilation = [];
+              this.setRunning("tsc", true);
+            } else if (TSC_WATCH_FINISHED.test(line)) {
+              this.replaceProblems("tsc", parseTscOutput(compilation.join("\n")));
+              this.setRunning("tsc", false);
+              this.setState({ checkedAt: Date.now() });
+            } else {
+              compilation.push(line);
+            }
+          }
+        },
+      })
+    ).catch(() => {});
+    process.exit.then((exitCode) => {
+      if (this.tscWatchProcess !== process) return;
+      // Crashed or was killed from outside; stop pretending to watch
+      console.warn(`tsc --watch exited with code ${exitCode}`);
+      this.tscWatchProcess = null;
+      this.setRunning("tsc", false);
+    });
+  }
+
+  // Lints the given files, or the whole project
+  private static async runEslint(paths?: string[]): Promise<void> {
+    if (!(await WebContainerManager.exists("node_modules/.bin/eslint"))) {
+      this.setUnavailable("eslint", "ESLint isn't installed in the project");
+      this.replaceProblems("eslint", []);
+      return;
+    }
+
+    // Deleted files have nothing left to lint, but their problems still go
+    const existing: string[] = [];
+    for (const path of paths ?? []) {
+      if (await WebContainerManager.exists(path)) existing.push(path);
+    }
+    if (paths && existing.length === 0) {
+      this.replaceProblems("eslint", [], paths);
+      return;
+    }
+
+    this.setRunning("eslint", true);
+    try {
+      const container = await WebContainerManager.getInstance();
+      const output = await WebContainerManager.runCommand("npx", ["eslint", "-f", "json", ...(paths ? existing : ["."])]);
+      this.replaceProblems("eslint", parseEslintOutput(output, container.workdir), paths);
+      this.setUnavailable("eslint", null);
+    } catch (error) {
+      console.error("ESLint failed:", error);
+      this.setUnavailable("eslint", error instanceof Error ? error.message : String(error));
+    } finally {
+      this.setRunning("eslint", false);
+    }
+  }
+
+  // Swaps in a checker's new results, for the given paths only when there are some
+  private static replaceProblems(source: ProblemSource, problems: Problem[], paths?: string[]): void {
+    const kept = this.state.problems.filter(
+      (problem) => problem.source !== source || (paths !== undefined && !paths.includes(problem.path))
+    );
+    this.setState({ problems: [...kept, ...problems].sort(byLocation) });
+  }
+
+  private static setRunning(source: ProblemSource, running: boolean): void {
+    const others = this.state.running.filter((existing) => existing !== source);
+    this.setState({ running: running ? [...others, source] : others });
+  }
+
+  private static setUnavailable(source: ProblemSource, reason: string | null): void {
+    const unavailable = { ...this.state.unavailable };
+    if (reason) {
+      unavailable[source] = reason;
+    } else {
+      delete unavailable[source];
+    }
+    this.setState({ unavailable });
+  }
+
+  private static setState(changes: Partial<ProblemsState>): void {
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
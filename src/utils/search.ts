@@ -0,0 +1,209 @@
+import { decodeText } from "./diff";
+import { EditorTabs, isDirty } from "./editor-tabs";
+import { flattenFiles, parentPath } from "./file-tree";
+import { globToRegex } from "./ignore";
+import WebContainerManager from "./webcontainer-manager";
+
+export interface SearchOptions {
+  query: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  // Comma-separated globs; "*.ts" matches in any folder, "src" everything inside it
+  include: string;
+  exclude: string;
+}
+
+export interface SearchMatch {
+  // Where the match starts in the file, and where it starts on its line (1-based)
+  offset: number;
+  line: number;
+  column: number;
+  text: string;
+  // Capture groups, for expanding $1 and $<name> in a regex replacement
+  captures: (string | undefined)[];
+  namedCaptures?: Record<string, string | undefined>;
+  lineText: string;
+  before: string[];
+  after: string[];
+}
+
+export interface FileSearchResult {
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  files: FileSearchResult[];
+  // Stopped at the match limit
+  truncated: boolean;
+}
+
+const MAX_MATCHES = 2000;
+const MAX_FILE_SIZE = 1024 * 1024;
+const CONTEXT_LINES = 1;
+
+/**
+ * The regex a search runs: global and multiline, so ^ and $ work per line.
+ * Throws on an invalid regex.
+ */
+export function buildSearchRegex(options: SearchOptions): RegExp {
+  let source = options.isRegex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  if (options.wholeWord) {
+    source = `\\b(?:${source})\\b`;
+  }
+  return new RegExp(source, `gm${options.caseSensitive ? "" : "i"}`);
+}
+
+const parseGlobs = (globs: string): RegExp[] =>
+  globs
+    .split(",")
+    .map((glob) => glob.trim().replace(/^\.?\//, "").replace(/\/$/, ""))
+    .filter(Boolean)
+    .map((glob) => globToRegex(glob.includes("/") ? glob : `**/${glob}`));
+
+// A glob matches a file, or any folder it's in
+const matchesAny = (globs: RegExp[], path: string): boolean => {
+  for (let candidate = path; candidate; candidate = parentPath(candidate)) {
+    if (globs.some((glob) => glob.test(candidate) || glob.test(`/${candidate}`))) return true;
+  }
+  return false;
+};
+
+// Expands $&, $1 and $<name> the way String.replace would
+export function expandReplacement(replacement: string, match: SearchMatch, isRegex: boolean): string {
+  if (!isRegex) return replacement;
+  return replacement.replace(/\$(\$|&|\d{1,2}|<([^>]*)>)/g, (token, what: string, name: string | undefined) => {
+    if (what === "$") return "$";
+    if (what === "&") return match.text;
+    if (name !== undefined) return match.namedCaptures?.[name] ?? "";
+    const index = Number(what);
+    return index >= 1 && index <= match.captures.length ? match.captures[index - 1] ?? "" : token;
+  });
+}
+
+const findMatches = (content: string, regex: RegExp, limit: number): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+  const lines = content.split("\n");
+  // Start offset of each line, to turn match offsets into line numbers
+  const lineStarts: number[] = [];
+  let position = 0;
+  for (const line of lines) {
+    lineStarts.push(position);
+    position += line.length + 1;
+  }
+
+  regex.lastIndex = 0;
+  let lineIndex = 0;
+  let match: RegExpExecArray | null;
+  while (matches.length < limit && (match = regex.exec(content)) !== null) {
+    // Empty matches would never move on
+    if (match[0].length === 0) {
+      regex.lastIndex++;
+      continue;
+    }
+    while (lineIndex + 1 < lineStarts.length && lineStarts[lineIndex + 1] <= match.index) {
+      lineIndex++;
+    }
+    matches.push({
+      offset: match.index,
+      line: lineIndex + 1,
+      column: match.index - lineStarts[lineIndex] + 1,
+      text: match[0],
+      captures: match.slice(1),
+      namedCaptures: match.groups,
+      lineText: lines[lineIndex].replace(/\r$/, ""),
+      before: lines.slice(Math.max(0, lineIndex - CONTEXT_LINES), lineIndex).map((line) => line.replace(/\r$/, "")),
+      after: lines.slice(lineIndex + 1, lineIndex + 1 + CONTEXT_LINES).map((line) => line.replace(/\r$/, "")),
+    });
+  }
+  return matches;
+};
+
+// What the editor has for a file: the open buffer, including unsaved edits, or the disk
+const readText = async (path: string): Promise<string | null> => {
+  const tab = EditorTabs.getTab(path);
+  if (tab) return tab.binary ? null : tab.content;
+  const container = await WebContainerManager.getInstance();
+  const bytes = await container.fs.readFile(path);
+  return bytes.length > MAX_FILE_SIZE ? null : decodeText(bytes);
+};
+
+/**
+ * Searches the project's text files (what the file tree shows, so nothing
+ * .gitignore excludes) with open tabs searched as they are in the editor.
+ * Stops after `maxMatches`; replacing everything lifts the cap.
+ */
+export async function searchProject(options: SearchOptions, maxMatches = MAX_MATCHES): Promise<SearchResults> {
+  const regex = buildSearchRegex(options);
+  const include = parseGlobs(options.include);
+  const exclude = parseGlobs(options.exclude);
+  const paths = flattenFiles(await WebContainerManager.getFileTree()).filter(
+    (path) => (include.length === 0 || matchesAny(include, path)) && !matchesAny(exclude, path)
+  );
+
+  const files: FileSearchResult[] = [];
+  let total = 0;
+  for (const path of paths) {
+    let content: string | null;
+    try {
+      content = await readText(path);
+    } catch {
+      continue;
+    }
+    if (content === null) continue;
+
+    const matches = findMatches(content, regex, maxMatches - total);
+    if (matches.length > 0) {
+      files.push({ path, matches });
+      total += matches.length;
+    }
+    if (total >= maxMatches) {
+      return { files, truncated: true };
+    }
+  }
+  return { files, truncated: false };
+}
+
+/**
+ * Replaces matches in one file: all of them, or only those starting at the
+ * given offsets. The file is searched again first, so a match that moved or
+ * went away since the results were shown is left alone. Files are written
+ * through WebContainerManager so the change is tracked; an open tab gets the
+ * edit in its buffer and is saved, unless it already had unsaved edits.
+ * Returns how many matches were replaced.
+ */
+export async function replaceInFile(
+  path: string,
+  options: SearchOptions,
+  replacement: string,
+  offsets?: number[]
+): Promise<number> {
+  const content = await readText(path);
+  if (content === null) return 0;
+
+  const matches = findMatches(content, buildSearchRegex(options), Infinity).filter(
+    (match) => !offsets || offsets.includes(match.offset)
+  );
+  if (matches.length === 0) return 0;
+
+  let result = "";
+  let position = 0;
+  for (const match of matches) {
+    result += content.slice(position, match.offset) + expandReplacement(replacement, match, options.isRegex);
+    position = match.offset + match.text.length;
+  }
+  result += content.slice(position);
+
+  const tab = EditorTabs.getTab(path);
+  if (tab) {
+    const wasDirty = isDirty(tab);
+    EditorTabs.update(path, result);
+    if (!wasDirty) {
+      await EditorTabs.save(path);
+    }
+  } else {
+    await WebContainerManager.writeFile(path, result);
+  }
+  return matches.length;
+}
@@ -0,0 +1,119 @@
+// Minimal in-memory tar reader for the archives served by GitHub's
+// tarball endpoint. Supports ustar headers, pax extended/global headers and
+// GNU long names, which covers everything `git archive` produces.
+
+export interface TarEntry {
+  path: string;
+  type: "file" | "directory" | "symlink";
+  mode: number;
+  data: Uint8Array;
+  linkTarget?: string;
+}
+
+export interface TarArchive {
+  entries: TarEntry[];
+  // Global pax headers. GitHub stores the archived commit SHA in `comment`.
+  globalHeaders: Record<string, string>;
+}
+
+const BLOCK_SIZE = 512;
+const decoder = new TextDecoder();
+
+const readString = (block: Uint8Array, offset: number, length: number): string => {
+  const slice = block.subarray(offset, offset + length);
+  const end = slice.indexOf(0);
+  return decoder.decode(end === -1 ? slice : slice.subarray(0, end));
+};
+
+const readNumber = (block: Uint8Array, offset: number, length: number): number => {
+  // Sizes above 8GB use the GNU base-256 encoding (high bit set)
+  if (block[offset] & 0x80) {
+    let value = 0;
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = value * 256 + block[i];
+    }
+    return value;
+  }
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+};
+
+const parsePaxRecords = (data: Uint8Array): Record<string, string> => {
+  // Records look like "<length> <key>=<value>\n", where length counts bytes
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(decoder.decode(data.subarray(offset, space)), 10);
+    if (!length) break;
+    const record = decoder.decode(data.subarray(space + 1, offset + length - 1));
+    const separator = record.indexOf("=");
+    if (separator !== -1) {
+      records[record.slice(0, separator)] = record.slice(separator + 1);
+    }
+    offset += length;
+  }
+  return records;
+};
+
+const isZeroBlock = (block: Uint8Array): boolean => block.every((byte) => byte === 0);
+
+export function parseTar(buffer: Uint8Array): TarArchive {
+  const entries: TarEntry[] = [];
+  const globalHeaders: Record<string, string> = {};
+  let pendingPax: Record<string, string> = {};
+  let pendingLongName: string | null = null;
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= buffer.length) {
+    const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+    if (isZeroBlock(header)) {
+      break;
+    }
+
+    const size = readNumber(header, 124, 12);
+    const typeFlag = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + BLOCK_SIZE;
+    const data = buffer.subarray(dataStart, dataStart + size);
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    if (typeFlag === "g") {
+      Object.assign(globalHeaders, parsePaxRecords(data));
+      continue;
+    }
+    if (typeFlag === "x") {
+      pendingPax = parsePaxRecords(data);
+      continue;
+    }
+    if (typeFlag === "L") {
+      pendingLongName = readString(data, 0, data.length);
+      continue;
+    }
+
+    const magic = readString(header, 257, 6);
+    const prefix = magic.startsWith("ustar") ? readString(header, 345, 155) : "";
+    const name = readString(header, 0, 100);
+    const path = pendingPax.path ?? pendingLongName ?? (prefix ? `${prefix}/${name}` : name);
+    const linkTarget = pendingPax.linkpath ?? readString(header, 157, 100);
+    pendingPax = {};
+    pendingLongName = null;
+
+    const mode = readNumber(header, 100, 8);
+    if (typeFlag === "5") {
+      entries.push({ path, type: "directory", mode, data: new Uint8Array(0) });
+    } else if (typeFlag === "2") {
+      entries.push({ path, type: "symlink", mode, data: new Uint8Array(0), linkTarget });
+    } else if (typeFlag === "0" || typeFlag === "7") {
+      entries.push({ path, type: "file", mode, data });
+    }
+    // Hard links, devices and FIFOs never appear in git archives; skip them
+  }
+
+  return { entries, globalHeaders };
+}
+
+export async function gunzip(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,40 @@
+import type { EditorPosition } from "./editor-tabs";
+
+export interface FileLink {
+  // Where the link is in the line, 0-based, end exclusive
+  start: number;
+  end: number;
+  // As printed, before resolving against the project
+  path: string;
+  position: EditorPosition;
+}
+
+// "src/App.tsx:12", "./src/App.tsx:12:5", "/home/projects/app/src/App.tsx:12:5"
+// and tsc's "src/App.tsx(12,5)"; a file needs an extension to count
+const FILE_LINK = /((?:\.{0,2}\/)?(?:[\w@.+-]+\/)*[\w@.+-]*\.[A-Za-z0-9]+)(?::(\d+)(?::(\d+))?|\((\d+),(\d+)\))/g;
+
+export function findFileLinks(text: string): FileLink[] {
+  const links: FileLink[] = [];
+  for (const match of text.matchAll(FILE_LINK)) {
+    const [whole, path, line, column, tscLine, tscColumn] = match;
+    links.push({
+      start: match.index,
+      end: match.index + whole.length,
+      path,
+      position: { line: Number(line ?? tscLine), column: Number(column ?? tscColumn ?? 1) },
+    });
+  }
+  return links;
+}
+
+/**
+ * The project path a printed path refers to: absolute paths inside the
+ * container's workdir lose it, and "/src/App.tsx" (how Vite prints module
+ * ids) and "./src/App.tsx" become "src/App.tsx". Paths outside the project
+ * give null.
+ */
+export function resolveLinkPath(path: string, workdir: string): string | null {
+  if (path.startsWith(`${workdir}/`)) return path.slice(workdir.length + 1);
+  if (path.startsWith("../")) return null;
+  return path.replace(/^\.?\//, "") || null;
+}
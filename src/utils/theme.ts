@@ -37,3 +37,13 @@ export function getNextTheme(currentTheme: Theme): Theme {
       return "light";
   }
 }
+
+// Follows the dark class that applyTheme toggles, for widgets styled outside Tailwind
+export function watchEffectiveTheme(listener: (theme: "light" | "dark") => void): () => void {
+  const root = window.document.documentElement;
+  const read = (): "light" | "dark" => (root.classList.contains("dark") ? "dark" : "light");
+  listener(read());
+  const observer = new MutationObserver(() => listener(read()));
+  observer.observe(root, { attributes: true, attributeFilter: ["class"] });
+  return () => observer.disconnect();
+}
@@ -0,0 +1,469 @@
+import type * as Monaco from "monaco-editor";
+import { EditorTabs } from "./editor-tabs";
+import type { EditorTab } from "./editor-tabs";
+import { flattenFiles, joinPath, parentPath } from "./file-tree";
+import { isAlwaysIgnored, isInIgnoredPath } from "./ignore";
+import { parseJsonc } from "./jsonc";
+import { languageForPath } from "./languages";
+import WebContainerManager from "./webcontainer-manager";
+
+type MonacoApi = typeof Monaco;
+type CompilerOptions = Monaco.languages.typescript.CompilerOptions;
+type CompilerOptionsValue = CompilerOptions[string];
+type ExtraLib = { content: string; filePath: string };
+
+interface TsConfig {
+  compilerOptions?: Record<string, unknown>;
+  extends?: string | string[];
+  references?: { path: string }[];
+}
+
+interface PackageManifest {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+const SOURCE_FILE = /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i;
+const DECLARATION_FILE = /\.d\.(ts|mts|cts)$/i;
+const CONFIG_FILE = /^(ts|js)config[^/]*\.json$/;
+// Big enough for real projects, small enough not to swamp the worker
+const MAX_SOURCE_MODELS = 2000;
+const MAX_TYPE_FILES = 5000;
+const MAX_FILE_LENGTH = 1024 * 1024;
+// Monaco ships the standard library itself, and the compiler's own typings are huge
+const SKIPPED_PACKAGES = new Set(["typescript"]);
+
+// tsconfig spellings to the compiler's enum values, which the worker accepts
+// even where monaco's typings lag behind (ES2022, bundler resolution)
+const TARGETS: Record<string, number> = {
+  es3: 0, es5: 1, es6: 2, es2015: 2, es2016: 3, es2017: 4, es2018: 5, es2019: 6,
+  es2020: 7, es2021: 8, es2022: 9, es2023: 10, esnext: 99,
+};
+const MODULES: Record<string, number> = {
+  none: 0, commonjs: 1, amd: 2, umd: 3, system: 4, es6: 5, es2015: 5, es2020: 6,
+  es2022: 7, esnext: 99, node16: 100, nodenext: 199, preserve: 200,
+};
+const MODULE_RESOLUTIONS: Record<string, number> = {
+  classic: 1, node: 2, node10: 2, node16: 3, nodenext: 99, bundler: 100,
+};
+const JSX_MODES: Record<string, number> = {
+  preserve: 1, react: 2, "react-native": 3, "react-jsx": 4, "react-jsxdev": 5,
+};
+// Options about emitting files or finding the project's files, which the editor handles itself
+const IGNORED_OPTIONS = new Set([
+  "composite", "declaration", "declarationDir", "declarationMap", "emitDeclarationOnly", "incremental",
+  "noEmit", "outDir", "outFile", "plugins", "rootDir", "rootDirs", "sourceMap", "tsBuildInfoFile",
+  "typeRoots", "types",
+]);
+
+const DEFAULT_OPTIONS: Record<string, unknown> = {
+  target: "esnext",
+  module: "esnext",
+  moduleResolution: "node",
+  jsx: "react-jsx",
+  esModuleInterop: true,
+  allowSyntheticDefaultImports: true,
+};
+
+const uriFor = (monaco: MonacoApi, path: string): Monaco.Uri => monaco.Uri.parse(`file:///${path}`);
+
+// Resolves "./" and "../" segments against a repository-relative directory
+const resolvePath = (directory: string, relative: string): string => {
+  const parts = directory ? directory.split("/") : [];
+  for (const part of relative.split("/")) {
+    if (part === "..") {
+      parts.pop();
+    } else if (part && part !== ".") {
+      parts.push(part);
+    }
+  }
+  return parts.join("/");
+};
+
+const lookup = (values: Record<string, number>, value: unknown): number | undefined =>
+  typeof value === "string" ? values[value.toLowerCase()] : undefined;
+
+const toCompilerOptions = (options: Record<string, unknown>): CompilerOptions => {
+  const result: CompilerOptions = { allowNonTsExtensions: true };
+  for (const [name, value] of Object.entries(options)) {
+    if (IGNORED_OPTIONS.has(name)) continue;
+    switch (name) {
+      case "target":
+        result.target = lookup(TARGETS, value);
+        break;
+      case "module":
+        result.module = lookup(MODULES, value);
+        break;
+      case "moduleResolution":
+        result.moduleResolution = lookup(MODULE_RESOLUTIONS, value);
+        break;
+      case "jsx":
+        result.jsx = lookup(JSX_MODES, value);
+        break;
+      case "lib":
+        // The worker knows the standard library by file name
+        result.lib = Array.isArray(value) ? value.map((lib) => `lib.${String(lib).toLowerCase()}.d.ts`) : undefined;
+        break;
+      case "baseUrl":
+        result.baseUrl = `file:///${value}`;
+        break;
+      default:
+        result[name] = value as CompilerOptionsValue;
+    }
+  }
+  return result;
+};
+
+// "@scope/name" has its DefinitelyTyped package at "@types/scope__name"
+const typesPackageFor = (name: string): string => `@types/${name.replace(/^@/, "").replace("/", "__")}`;
+
+/**
+ * Feeds Monaco's TypeScript worker the project as the compiler would see it:
+ * the options from its tsconfig, every source file as a model, and the type
+ * declarations installed in node_modules. That's what diagnostics, hovers,
+ * rename and go to definition across files need.
+ *
+ * Models of files with tabs follow the tab; the rest follow the disk. Edits
+ * the language service makes to files without a tab (a rename, a quick fix)
+ * open them as dirty tabs rather than being lost.
+ */
+export class TypeScriptService {
+  private static monaco: MonacoApi | null = null;
+  // Loads and updates run one at a time
+  private static tasks: Promise<void> = Promise.resolve();
+  // What was last copied from each tab into its model
+  private static syncedContent = new Map<string, string>();
+  private static openPaths = new Set<string>();
+  // Set while we change a model ourselves, so it isn't taken for an edit
+  private static applyingEdit = false;
+
+  // Safe to call for every editor; only the first call does anything
+  static attach(monaco: MonacoApi): void {
+    if (this.monaco) return;
+    this.monaco = monaco;
+
+    const { typescriptDefaults, javascriptDefaults } = monaco.languages.typescript;
+    // Cross-file features need every model in the worker, not just the open ones
+    typescriptDefaults.setEagerModelSync(true);
+    javascriptDefaults.setEagerModelSync(true);
+
+    monaco.editor.registerEditorOpener({
+      openCodeEditor: (_source, resource, selectionOrPosition) => {
+        if (resource.scheme !== "file") return false;
+        const position = !selectionOrPosition
+          ? undefined
+          : "startLineNumber" in selectionOrPosition
+            ? { line: selectionOrPosition.startLineNumber, column: selectionOrPosition.startColumn }
+            : { line: selectionOrPosition.lineNumber, column: selectionOrPosition.column };
+        EditorTabs.open(resource.path.slice(1), position).catch((error) =>
+          console.error(`Failed to open ${resource.path}:`, error)
+        );
+        return true;
+      },
+    });
+
+    monaco.editor.getModels().forEach((model) => this.watchModel(model));
+    monaco.editor.onDidCreateModel((model) => this.watchModel(model));
+    EditorTabs.subscribe((state) => this.syncTabs(state.tabs));
+
+    this.enqueue("load the project into the TypeScript service", async () => {
+      await this.loadCompilerOptions();
+      await this.loadSourceModels();
+      await this.loadTypes();
+    });
+    WebContainerManager.watchFiles((paths) =>
+      this.enqueue("update the TypeScript service", () => this.handleChanges(paths))
+    ).catch((error) => console.error("Failed to watch files for the TypeScript service:", error));
+  }
+
+  private static enqueue(description: string, task: () => Promise<void>): void {
+    this.tasks = this.tasks.then(task).catch((error) => console.error(`Failed to ${description}:`, error));
+  }
+
+  private static async readConfig(path: string): Promise<TsConfig | null> {
+    try {
+      return parseJsonc(await WebContainerManager.readFile(path)) as TsConfig;
+    } catch {
+      return null;
+    }
+  }
+
+  // A config's options merged over everything it extends, with paths made repository-relative
+  private static async readCompilerOptions(path: string, config: TsConfig, depth = 0): Promise<Record<string, unknown>> {
+    const directory = parentPath(path);
+    let options: Record<string, unknown> = {};
+
+    for (const base of config.extends === undefined ? [] : [config.extends].flat()) {
+      const candidates = base.startsWith(".")
+        ? [resolvePath(directory, base), resolvePath(directory, `${base}.json`)]
+        : [`node_modules/${base}`, `node_modules/${base}.json`, `node_modules/${base}/tsconfig.json`];
+      for (const candidate of candidates.filter((candidate) => candidate.endsWith(".json"))) {
+        const baseConfig = await this.readConfig(candidate);
+        // Guards against configs extending each other
+        if (baseConfig && depth < 5) {
+          options = { ...options, ...(await this.readCompilerOptions(candidate, baseConfig, depth + 1)) };
+          break;
+        }
+      }
+    }
+
+    const own = { ...config.compilerOptions };
+    if (typeof own.baseUrl === "string") {
+      own.baseUrl = resolvePath(directory, own.baseUrl);
+    } else if (own.paths && options.baseUrl === undefined) {
+      // Without a baseUrl, paths are relative to the config that declares them
+      own.baseUrl = directory;
+    }
+    return { ...options, ...own };
+  }
+
+  private static async loadCompilerOptions(): Promise<void> {
+    const monaco = this.monaco!;
+    let options = DEFAULT_OPTIONS;
+
+    for (const name of ["tsconfig.json", "jsconfig.json"]) {
+      const config = await this.readConfig(name);
+      if (!config) continue;
+
+      options = await this.readCompilerOptions(name, config);
+      // Solution-style configs (like Vite's) keep the settings in the projects
+      // they reference; the one setting jsx is the app's, so it goes last and wins
+      const referenced: Record<string, unknown>[] = [];
+      for (const reference of config.references ?? []) {
+        const path = resolvePath("", reference.path);
+        const configPath = path.endsWith(".json") ? path : joinPath(path, "tsconfig.json");
+        const referencedConfig = await this.readConfig(configPath);
+        if (referencedConfig) {
+          referenced.push(await this.readCompilerOptions(configPath, referencedConfig));
+        }
+      }
+      referenced.sort((a, b) => Number("jsx" in a) - Number("jsx" in b));
+      options = Object.assign({}, options, ...referenced);
+      if (name === "jsconfig.json") {
+        options = { allowJs: true, ...options };
+      }
+      break;
+    }
+
+    const compilerOptions = toCompilerOptions(options);
+    monaco.languages.typescript.typescriptDefaults.setCompilerOptions(compilerOptions);
+    monaco.languages.typescript.javascriptDefaults.setCompilerOptions({
+      ...compilerOptions,
+      allowJs: true,
+      checkJs: compilerOptions.checkJs ?? false,
+    });
+  }
+
+  private static async loadSourceModels(): Promise<void> {
+    const paths = flattenFiles(await WebContainerManager.getFileTree()).filter((path) => SOURCE_FILE.test(path));
+    if (paths.length > MAX_SOURCE_MODELS) {
+      console.warn(`⚠️ Only the first ${MAX_SOURCE_MODELS} of ${paths.length} source files get type information`);
+    }
+    for (const path of paths.slice(0, MAX_SOURCE_MODELS)) {
+      await this.syncFromDisk(path);
+    }
+  }
+
+  /**
+   * Loads the declarations of the project's dependencies, the packages their
+   * declarations depend on, and anything under @types.
+   */
+  private static async loadTypes(): Promise<void> {
+    const container = await WebContainerManager.getInstance();
+    const libs: ExtraLib[] = [];
+    const visited = new Set<string>();
+    const queue: string[] = [];
+    const enqueueDependencies = (manifest: PackageManifest, fields: (keyof PackageManifest)[]): void => {
+      fields.forEach((field) => queue.push(...Object.keys(manifest[field] ?? {})));
+    };
+
+    try {
+      const manifest = JSON.parse(await WebContainerManager.readFile("package.json")) as PackageManifest;
+      enqueueDependencies(manifest, ["dependencies", "devDependencies", "peerDependencies"]);
+    } catch {
+      // No package.json; @types may still be there
+    }
+    try {
+      queue.push(...(await container.fs.readdir("node_modules/@types")).map((name) => `@types/${name}`));
+    } catch {
+      // Nothing installed under @types
+    }
+
+    while (queue.length > 0 && libs.length < MAX_TYPE_FILES) {
+      const name = queue.shift()!;
+      if (visited.has(name) || SKIPPED_PACKAGES.has(name)) continue;
+      visited.add(name);
+
+      const directory = `node_modules/${name}`;
+      let manifestText: string;
+      try {
+        manifestText = await WebContainerManager.readFile(`${directory}/package.json`);
+      } catch {
+        continue;
+      }
+      const declarations = await this.readDeclarations(directory, MAX_TYPE_FILES - libs.length);
+      if (declarations.length === 0) {
+        if (!name.startsWith("@types/")) {
+          queue.push(typesPackageFor(name));
+        }
+        continue;
+      }
+      // The manifest tells the compiler where the package's entry point is
+      libs.push({ content: manifestText, filePath: `file:///${directory}/package.json` }, ...declarations);
+      try {
+        enqueueDependencies(JSON.parse(manifestText) as PackageManifest, ["dependencies", "peerDependencies"]);
+      } catch {
+        // A broken manifest still leaves the declarations usable
+      }
+    }
+
+    if (libs.length >= MAX_TYPE_FILES) {
+      console.warn(`⚠️ Stopped loading type declarations after ${MAX_TYPE_FILES} files`);
+    }
+    const { typescriptDefaults, javascriptDefaults } = this.monaco!.languages.typescript;
+    typescriptDefaults.setExtraLibs(libs);
+    javascriptDefaults.setExtraLibs(libs);
+    console.log(`🧠 Loaded ${libs.length} type declaration files from ${visited.size} packages`);
+  }
+
+  private static async readDeclarations(directory: string, limit: number): Promise<ExtraLib[]> {
+    const container = await WebContainerManager.getInstance();
+    const declarations: ExtraLib[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await container.fs.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        if (declarations.length >= limit) return;
+        const path = `${dir}/${entry.name}`;
+        if (entry.isDirectory() && entry.name !== "node_modules") {
+          await walk(path);
+        } else if (entry.isFile() && DECLARATION_FILE.test(entry.name)) {
+          const content = await container.fs.readFile(path, "utf-8");
+          if (content.length <= MAX_FILE_LENGTH) {
+            declarations.push({ content, filePath: `file:///${path}` });
+          }
+        }
+      }
+    };
+
+    await walk(directory);
+    return declarations;
+  }
+
+  private static async handleChanges(paths: string[]): Promise<void> {
+    if (paths.some((path) => CONFIG_FILE.test(path))) {
+      await this.loadCompilerOptions();
+    }
+    // Dependencies were added or removed
+    if (paths.includes("package.json") || paths.includes("package-lock.json")) {
+      await this.loadTypes();
+    }
+
+    const shouldIgnore = await WebContainerManager.getIgnoreMatcher();
+    for (const path of paths) {
+      if (isAlwaysIgnored(path) || isInIgnoredPath(shouldIgnore, path)) continue;
+      if (SOURCE_FILE.test(path)) {
+        await this.syncFromDisk(path);
+        continue;
+      }
+      // A directory that appeared, moved or went away takes its files with it
+      const monaco = this.monaco!;
+      const known = monaco.editor
+        .getModels()
+        .filter((model) => model.uri.scheme === "file" && model.uri.path.startsWith(`/${path}/`))
+        .map((model) => model.uri.path.slice(1));
+      const found = (await WebContainerManager.isDirectory(path))
+        ? flattenFiles(await WebContainerManager.getFileTree(path)).filter((file) => SOURCE_FILE.test(file))
+        : [];
+      for (const file of new Set([...known, ...found])) {
+        await this.syncFromDisk(file);
+      }
+    }
+  }
+
+  // Brings a file's model in line with its tab, or with the disk when it has none
+  private static async syncFromDisk(path: string): Promise<void> {
+    const tab = EditorTabs.getTab(path);
+    if (tab) {
+      if (!tab.binary) this.setModelContent(path, tab.content);
+      return;
+    }
+    let content: string;
+    try {
+      content = await WebContainerManager.readFile(path);
+    } catch {
+      // Deleted, unless a tab was opened on it meanwhile
+      if (!EditorTabs.getTab(path)) {
+        this.monaco!.editor.getModel(uriFor(this.monaco!, path))?.dispose();
+      }
+      return;
+    }
+    if (!EditorTabs.getTab(path) && content.length <= MAX_FILE_LENGTH) {
+      this.setModelContent(path, content);
+    }
+  }
+
+  private static setModelContent(path: string, content: string): void {
+    const monaco = this.monaco!;
+    const uri = uriFor(monaco, path);
+    const model = monaco.editor.getModel(uri);
+    if (!model) {
+      if (SOURCE_FILE.test(path)) {
+        monaco.editor.createModel(content, languageForPath(path, content), uri);
+      }
+      return;
+    }
+    if (model.getValue() === content) return;
+
+    this.applyingEdit = true;
+    try {
+      // An edit rather than setValue, so the undo history survives
+      model.pushEditOperations([], [{ range: model.getFullModelRange(), text: content }], () => null);
+    } finally {
+      this.applyingEdit = false;
+    }
+  }
+
+  private static syncTabs(tabs: EditorTab[]): void {
+    const paths = new Set(tabs.map((tab) => tab.path));
+    for (const tab of tabs) {
+      if (tab.binary || this.syncedContent.get(tab.path) === tab.content) continue;
+      this.syncedContent.set(tab.path, tab.content);
+      this.setModelContent(tab.path, tab.content);
+    }
+    // Closing a tab throws its unsaved edits away, so its model goes back to the disk
+    for (const path of this.openPaths) {
+      if (!paths.has(path)) {
+        this.syncedContent.delete(path);
+        this.enqueue(`reload ${path}`, () => this.syncFromDisk(path));
+      }
+    }
+    this.openPaths = paths;
+  }
+
+  // Edits to a model that didn't come through an editor, e.g. a rename across files
+  private static watchModel(model: Monaco.editor.ITextModel): void {
+    if (model.uri.scheme !== "file") return;
+    model.onDidChangeContent(() => {
+      // The editor showing a model reports its edits itself
+      if (this.applyingEdit || model.isAttachedToEditor()) return;
+      const path = model.uri.path.slice(1);
+      const content = model.getValue();
+      const tab = EditorTabs.getTab(path);
+      if (tab?.content === content) return;
+
+      this.syncedContent.set(path, content);
+      if (tab) {
+        EditorTabs.update(path, content);
+      } else {
+        EditorTabs.openEdited(path, content).catch((error) => console.error(`Failed to open ${path}:`, error));
+      }
+    });
+  }
+}
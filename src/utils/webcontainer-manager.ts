@@ -1,7 +1,51 @@
 import { WebContainer } from "@webcontainer/api";
+import type { WebContainerProcess } from "@webcontainer/api";
+import { ChangeTracker } from "./change-tracker";
+import { findNode, parentPath, replaceChildren, sortFileNodes } from "./file-tree";
+import type { FileNode } from "./file-tree";
+import { createIgnoreMatcher, globToRegex, isAlwaysIgnored, isInIgnoredPath } from "./ignore";
+import type { IgnoreMatcher } from "./ignore";
+
+// Changes to the project are passed on once they've settled for this long
+const FILE_WATCH_DEBOUNCE_MS = 300;
+// How much of each process's output the registry keeps, and how many exited processes
+const MAX_PROCESS_OUTPUT = 100_000;
+const MAX_FINISHED_PROCESSES = 30;
+
+// What a process was started for
+export type ProcessKind = "dev-server" | "terminal" | "script" | "task";
+
+export interface ProcessInfo {
+  id: number;
+  command: string;
+  args: string[];
+  // Relative to the project, "" for its root
+  cwd: string;
+  env: Record<string, string>;
+  kind: ProcessKind;
+  startedAt: number;
+  // Both null while the process runs
+  exitCode: number | null;
+  endedAt: number | null;
+  // Stopped from the editor rather than exiting by itself
+  killed: boolean;
+  // The latest output, up to MAX_PROCESS_OUTPUT characters
+  output: string;
+}
+
+// A spawned process with its id in the registry; its output is a copy the caller can read
+export type TrackedProcess = WebContainerProcess & { id: number };
+
+export const isRunning = (info: ProcessInfo): boolean => info.endedAt === null;
+
+type ProcessListener = (processes: ProcessInfo[]) => void;
 
 class WebContainerManager {
   private static container: WebContainer | null = null;
+  private static processes: ProcessInfo[] = [];
+  private static runningProcesses = new Map<number, WebContainerProcess>();
+  private static processListeners = new Set<ProcessListener>();
+  private static nextProcessId = 1;
 
   static async getInstance(): Promise<WebContainer> {
     // If we already have a booted instance, return it immediately.
@@ -113,97 +157,101 @@ class WebContainerManager {
     return container.fs.readFile(path, "utf-8");
   }
 
-  static async writeFile(path: string, content: string): Promise<void> {
+  static async writeFile(path: string, content: string | Uint8Array): Promise<void> {
     const container = await this.getInstance();
     await container.fs.writeFile(path, content);
+    ChangeTracker.recordWrite(path, content);
   }
 
-  static async listFiles(
-    pattern: string,
-    basePath: string = ".",
-    includeHidden: boolean = false
-  ): Promise<string[]> {
+  static async exists(path: string): Promise<boolean> {
     const container = await this.getInstance();
-    const allFiles: string[] = [];
+    const parent = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ".";
+    try {
+      const entries = await container.fs.readdir(parent);
+      return entries.includes(path.slice(path.lastIndexOf("/") + 1));
+    } catch {
+      return false;
+    }
+  }
+
+  static async isDirectory(path: string): Promise<boolean> {
+    const container = await this.getInstance();
+    try {
+      await container.fs.readdir(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  static async createDirectory(path: string): Promise<void> {
+    const container = await this.getInstance();
+    await container.fs.mkdir(path, { recursive: true });
+  }
+
+  // Removes a file or a whole directory
+  static async deletePath(path: string): Promise<void> {
+    const container = await this.getInstance();
+    await container.fs.rm(path, { recursive: true, force: true });
+    ChangeTracker.recordDelete(path);
+  }
+
+  // Renames or moves a file or directory; the destination must not exist
+  static async movePath(from: string, to: string): Promise<void> {
+    const container = await this.getInstance();
+    await container.fs.rename(from, to);
+    ChangeTracker.recordRename(from, to);
+  }
+
+  static async copyPath(from: string, to: string): Promise<void> {
+    const container = await this.getInstance();
+    if (!(await this.isDirectory(from))) {
+      await this.writeFile(to, await container.fs.readFile(from));
+      return;
+    }
+    await container.fs.mkdir(to, { recursive: true });
+    for (const entry of await container.fs.readdir(from)) {
+      await this.copyPath(`${from}/${entry}`, `${to}/${entry}`);
+    }
+  }
+
+  /**
+   * A file's bytes, or a directory as a zip archive (without installed
+   * dependencies), e.g. for downloading.
+   */
+  static async exportPath(path: string): Promise<Uint8Array> {
+    const container = await this.getInstance();
+    if (await this.isDirectory(path)) {
+      return container.export(path, { format: "zip", excludes: ["**/node_modules/**", "**/.git/**"] });
+    }
+    return container.fs.readFile(path);
+  }
 
-    // Read and parse .gitignore file
-    let gitignorePatterns: RegExp[] = [];
+  static async getIgnoreMatcher(): Promise<IgnoreMatcher> {
+    const container = await this.getInstance();
     try {
       const gitignoreContent = await container.fs.readFile(
         ".gitignore",
         "utf-8"
       );
-      gitignorePatterns = gitignoreContent
-        .split("\n")
-        .map((line) => line.trim())
-        .filter((line) => line && !line.startsWith("#")) // Remove empty lines and comments
-        .map((pattern) => {
-          // Convert gitignore pattern to regex
-          let regexPattern = pattern
-            .replace(/\./g, "\\.") // Escape dots
-            .replace(/\*\*/g, "DOUBLE_STAR") // Temporarily replace **
-            .replace(/\*/g, "[^/]*") // Single * matches anything except /
-            .replace(/DOUBLE_STAR/g, ".*") // ** matches anything including /
-            .replace(/\?/g, "[^/]"); // ? matches single char except /
-
-          // Handle directory patterns (ending with /)
-          if (pattern.endsWith("/")) {
-            regexPattern = regexPattern.slice(0, -1) + "(/.*)?";
-          }
-
-          // Handle patterns starting with / (absolute from repo root)
-          if (pattern.startsWith("/")) {
-            regexPattern = "^" + regexPattern.slice(1) + "$";
-          } else {
-            regexPattern = "(^|.*/)" + regexPattern + "$";
-          }
-
-          return new RegExp(regexPattern);
-        });
+      return createIgnoreMatcher(gitignoreContent);
     } catch {
       // No .gitignore file or error reading it - use common defaults
-      const defaultIgnores = [
-        "node_modules",
-        "dist",
-        "build",
-        ".git",
-        ".DS_Store",
-        "*.log",
-        ".env",
-        ".env.local",
-        ".env.*.local",
-        "coverage",
-        ".nyc_output",
-        ".cache",
-      ];
-      gitignorePatterns = defaultIgnores.map((pattern) => {
-        const regexPattern = pattern
-          .replace(/\./g, "\\.")
-          .replace(/\*\*/g, ".*")
-          .replace(/\*/g, "[^/]*")
-          .replace(/\?/g, "[^/]");
-        return new RegExp(`(^|.*/)${regexPattern}(/.*)?$`);
-      });
+      return createIgnoreMatcher(null);
     }
+  }
 
-    // Improved glob to regex conversion that handles ** patterns
-    const globToRegex = (glob: string) => {
-      const regexString = glob
-        .replace(/\./g, "\\.") // Escape dots
-        .replace(/\*\*/g, "DOUBLE_STAR") // Temporarily replace **
-        .replace(/\*/g, "[^/]*") // Single * matches anything except /
-        .replace(/DOUBLE_STAR/g, ".*") // ** matches anything including /
-        .replace(/\?/g, "[^/]"); // ? matches single char except /
-      return new RegExp(`^${regexString}$`);
-    };
+  static async listFiles(
+    pattern: string,
+    basePath: string = ".",
+    includeHidden: boolean = false
+  ): Promise<string[]> {
+    const container = await this.getInstance();
+    const allFiles: string[] = [];
 
+    const shouldIgnore = await this.getIgnoreMatcher();
     const re = globToRegex(pattern);
 
-    // Check if a path should be ignored based on gitignore patterns
-    const shouldIgnore = (path: string): boolean => {
-      return gitignorePatterns.some((pattern) => pattern.test(path));
-    };
-
     const readDirRecursive = async (dir: string) => {
       let entries;
       try {
@@ -239,9 +287,113 @@ class WebContainerManager {
     return allFiles;
   }
 
-  static async runCommand(command: string, args: string[]): Promise<string> {
+  /**
+   * Reads the project into a tree for the file explorer. Hidden files are
+   * included, but anything .gitignore excludes is left out like in listFiles.
+   */
+  static async getFileTree(basePath: string = "."): Promise<FileNode[]> {
+    return this.readFileTree(basePath, await this.getIgnoreMatcher());
+  }
+
+  /**
+   * Brings a tree from getFileTree up to date after the given paths changed,
+   * re-reading only the directories that contain them.
+   */
+  static async updateFileTree(tree: FileNode[], changedPaths: string[]): Promise<FileNode[]> {
+    // A new .gitignore can hide or reveal anything
+    if (changedPaths.includes(".gitignore")) {
+      return this.getFileTree();
+    }
+
+    const shouldIgnore = await this.getIgnoreMatcher();
+
+    const directories = new Set<string>();
+    for (const path of changedPaths) {
+      if (isAlwaysIgnored(path) || isInIgnoredPath(shouldIgnore, path)) continue;
+      // The closest directory the tree already knows; anything new below it gets read in full
+      let directory = parentPath(path);
+      while (directory && findNode(tree, directory)?.type !== "directory") {
+        directory = parentPath(directory);
+      }
+      directories.add(directory);
+      // Events can name a directory whose contents changed
+      if (findNode(tree, path)?.type === "directory") {
+        directories.add(path);
+      }
+    }
+
+    let updated = tree;
+    // Outer directories first, so inner ones are refreshed in the updated tree
+    for (const directory of Array.from(directories).sort((a, b) => a.length - b.length)) {
+      const known = directory ? findNode(updated, directory)?.children ?? [] : updated;
+      const children = await this.readFileTree(directory || ".", shouldIgnore, known);
+      updated = replaceChildren(updated, directory, children);
+    }
+    return updated;
+  }
+
+  /**
+   * Calls back with the project paths that changed, batched so that a burst
+   * of writes (a code generator, a build) arrives at once. Returns a
+   * function that stops watching.
+   */
+  static async watchFiles(listener: (paths: string[]) => void): Promise<() => void> {
     const container = await this.getInstance();
-    const process = await container.spawn(command, args);
+    const pendingPaths = new Set<string>();
+    let timeout: number | null = null;
+
+    const watcher = container.fs.watch(".", { recursive: true }, (_event, filename) => {
+      const path = String(filename).replace(/^\.\//, "");
+      if (!path || isAlwaysIgnored(path)) return;
+      pendingPaths.add(path);
+      if (timeout) clearTimeout(timeout);
+      timeout = window.setTimeout(() => {
+        timeout = null;
+        const paths = Array.from(pendingPaths);
+        pendingPaths.clear();
+        listener(paths);
+      }, FILE_WATCH_DEBOUNCE_MS);
+    });
+
+    return () => {
+      watcher.close();
+      if (timeout) clearTimeout(timeout);
+    };
+  }
+
+  // Directories found in `known` keep their children rather than being read again
+  private static async readFileTree(
+    dir: string,
+    shouldIgnore: IgnoreMatcher,
+    known: FileNode[] = []
+  ): Promise<FileNode[]> {
+    const container = await this.getInstance();
+    let entries;
+    try {
+      entries = await container.fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return [];
+    }
+
+    const nodes: FileNode[] = [];
+    for (const entry of entries) {
+      const fullPath = dir === "." ? entry.name : `${dir}/${entry.name}`;
+      if (isAlwaysIgnored(fullPath) || shouldIgnore(fullPath)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        const existing = known.find((node) => node.path === fullPath && node.type === "directory");
+        const children = existing?.children ?? (await this.readFileTree(fullPath, shouldIgnore));
+        nodes.push({ name: entry.name, type: "directory", path: fullPath, children });
+      } else if (entry.isFile()) {
+        nodes.push({ name: entry.name, type: "file", path: fullPath });
+      }
+    }
+    return sortFileNodes(nodes);
+  }
+
+  static async runCommand(command: string, args: string[]): Promise<string> {
+    const process = await this.spawn(command, args);
 
     let output = "";
     const stream = new WritableStream({
@@ -262,6 +414,111 @@ class WebContainerManager {
     return output;
   }
 
+  // An interactive jsh session for a terminal of the given size
+  static async spawnShell(dimensions: { cols: number; rows: number }): Promise<TrackedProcess> {
+    return this.spawn("jsh", [], { kind: "terminal", terminal: dimensions });
+  }
+
+  /**
+   * Spawns a process in the container and records it in the process
+   * registry with its output, until it exits and a while after.
+   */
+  static async spawn(
+    command: string,
+    args: string[],
+    options: {
+      cwd?: string;
+      env?: Record<string, string>;
+      kind?: ProcessKind;
+      terminal?: { cols: number; rows: number };
+    } = {}
+  ): Promise<TrackedProcess> {
+    const container = await this.getInstance();
+    const cwd = options.cwd ?? "";
+    const env = options.env ?? {};
+    const process = await container.spawn(command, args, { cwd: cwd || undefined, env, terminal: options.terminal });
+    const id = this.nextProcessId++;
+
+    const finished = this.processes.filter((info) => !isRunning(info));
+    const dropped = new Set(finished.slice(0, Math.max(0, finished.length + 1 - MAX_FINISHED_PROCESSES)));
+    this.setProcesses([
+      ...this.processes.filter((info) => !dropped.has(info)),
+      {
+        id,
+        command,
+        args,
+        cwd,
+        env,
+        kind: options.kind ?? "task",
+        startedAt: Date.now(),
+        exitCode: null,
+        endedAt: null,
+        killed: false,
+        output: "",
+      },
+    ]);
+    this.runningProcesses.set(id, process);
+
+    const [recorded, output] = process.output.tee();
+    recorded
+      .pipeTo(
+        new WritableStream({
+          write: (data) =>
+            this.updateProcess(id, (info) => ({ output: (info.output + data).slice(-MAX_PROCESS_OUTPUT) })),
+        })
+      )
+      .catch(() => {});
+    process.exit.then((exitCode) => {
+      this.runningProcesses.delete(id);
+      this.updateProcess(id, (info) => ({ exitCode, endedAt: info.endedAt ?? Date.now() }));
+    });
+
+    return {
+      id,
+      exit: process.exit,
+      input: process.input,
+      output,
+      kill: () => this.killProcess(id),
+      resize: (dimensions) => process.resize(dimensions),
+    };
+  }
+
+  static killProcess(id: number): void {
+    const process = this.runningProcesses.get(id);
+    if (!process) return;
+    this.runningProcesses.delete(id);
+    process.kill();
+    this.updateProcess(id, () => ({ killed: true, endedAt: Date.now() }));
+    console.log(`🛑 Killed process ${id}`);
+  }
+
+  static getProcesses(): ProcessInfo[] {
+    return this.processes;
+  }
+
+  static subscribeProcesses(listener: ProcessListener): () => void {
+    this.processListeners.add(listener);
+    listener(this.processes);
+    return () => {
+      this.processListeners.delete(listener);
+    };
+  }
+
+  // Forgets processes that have exited
+  static clearFinishedProcesses(): void {
+    this.setProcesses(this.processes.filter(isRunning));
+  }
+
+  private static updateProcess(id: number, changes: (info: ProcessInfo) => Partial<ProcessInfo>): void {
+    if (!this.processes.some((info) => info.id === id)) return;
+    this.setProcesses(this.processes.map((info) => (info.id === id ? { ...info, ...changes(info) } : info)));
+  }
+
+  private static setProcesses(processes: ProcessInfo[]): void {
+    this.processes = processes;
+    this.processListeners.forEach((listener) => listener(this.processes));
+  }
+
   static async grepSearch(
     pattern: string,
     options: {
@@ -360,25 +617,6 @@ class WebContainerManager {
       return "Error performing search.";
     }
   }
-
-  static async runCommandWithEnv(
-    command: string,
-    args: string[],
-    env: Record<string, string> = {}
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  ): Promise<{ process: any; exitCode: Promise<number> }> {
-    const container = await this.getInstance();
-    const spawnedProcess = await container.spawn(command, args, {
-      env: {
-        ...env,
-      },
-    });
-
-    return {
-      process: spawnedProcess,
-      exitCode: spawnedProcess.exit,
-    };
-  }
 }
 
 export default WebContainerManager;
@@ -0,0 +1,105 @@
+import type { FileChange } from "./change-tracker";
+import type { PullRequestInfo, RepoRef } from "./github";
+import { parseRepoUrl } from "./github";
+
+export interface WorkspaceSnapshot {
+  key: string;
+  savedAt: number;
+  repoRef: RepoRef;
+  pullRequest: PullRequestInfo | null;
+  // Binary WebContainer exports: the project without node_modules, and node_modules on its own
+  source: Uint8Array;
+  dependencies: Uint8Array | null;
+  // What the repository looked like when cloned, and how the workspace differs from it
+  baseline: Map<string, Uint8Array>;
+  changes: FileChange[];
+  // AiChatPanel's messages, stored as they are
+  chatHistory: unknown[];
+}
+
+const DATABASE_NAME = "basebase-workspaces";
+const DATABASE_VERSION = 1;
+const STORE_NAME = "workspaces";
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Identifies a project and repository whatever is checked out, for settings shared by every checkout
+export function projectKey(project: string | null, repoUrl: string): string {
+  const location = parseRepoUrl(repoUrl);
+  return `${project ?? ""}:${location.owner}/${location.repo}`;
+}
+
+/**
+ * Identifies a workspace by project and what was checked out, so the same
+ * repository opened at another branch or pull request gets its own snapshot.
+ */
+export function workspaceKey(
+  project: string | null,
+  repoUrl: string,
+  requestedRef: string | null,
+  pullNumber: number | null
+): string {
+  const location = parseRepoUrl(repoUrl);
+  const checkout = pullNumber ? `pr/${pullNumber}` : requestedRef ?? location.ref ?? "(default)";
+  return `${projectKey(project, repoUrl)}@${checkout}`;
+}
+
+/**
+ * Keeps workspace snapshots in IndexedDB so a reload can pick up where the
+ * user left off instead of cloning and installing again.
+ */
+export class WorkspaceStore {
+  private static database: Promise<IDBDatabase> | null = null;
+
+  private static open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      };
+      this.database = promisify(request);
+      // Let a later call try again instead of caching the failure
+      this.database.catch(() => {
+        this.database = null;
+      });
+    }
+    return this.database;
+  }
+
+  private static async transaction<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    const database = await this.open();
+    return promisify(run(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  }
+
+  static async load(key: string): Promise<WorkspaceSnapshot | null> {
+    const snapshot = await this.transaction<WorkspaceSnapshot | undefined>("readonly", (store) => store.get(key));
+    return snapshot ?? null;
+  }
+
+  static async save(snapshot: WorkspaceSnapshot): Promise<void> {
+    await this.transaction("readwrite", (store) => store.put(snapshot));
+  }
+
+  /**
+   * Updates part of an existing snapshot, e.g. the source tree after an edit
+   * without exporting node_modules again.
+   */
+  static async update(key: string, changes: Partial<Omit<WorkspaceSnapshot, "key">>): Promise<void> {
+    const existing = await this.load(key);
+    if (!existing) {
+      throw new Error(`No saved workspace for ${key}`);
+    }
+    await this.save({ ...existing, ...changes, savedAt: Date.now() });
+  }
+
+  static async remove(key: string): Promise<void> {
+    await this.transaction("readwrite", (store) => store.delete(key));
+  }
+}